@@ -0,0 +1,160 @@
+import http from "http";
+import { AddressInfo } from "net";
+import express from "express";
+import pino from "pino";
+import { adminRouter, AdminRouterOptions } from "./admin";
+import CircuitBreakerMiddleware from "./circuit";
+import { CircuitBreakerRegistry } from "./registry";
+
+type Reply = { status: number; body: any };
+
+describe("adminRouter", () => {
+  let registry: CircuitBreakerRegistry;
+  let server: http.Server;
+  let audit: jest.SpyInstance;
+
+  const listen = (options?: AdminRouterOptions) =>
+    new Promise<void>(resolve => {
+      const app = express();
+      app.use("/admin", adminRouter(registry, options));
+      server = app.listen(0, resolve);
+    });
+
+  const request = (method: string, path: string, headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<Reply>((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      const req = http.request({ port, method, path, headers }, res => {
+        let data = "";
+        res.on("data", chunk => (data += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+      });
+      req.on("error", reject);
+      req.end();
+    });
+
+  beforeEach(() => {
+    registry = new CircuitBreakerRegistry({
+      keyFn: req => req.path,
+      defaults: { logger: pino({ level: "silent" }) },
+    });
+    audit = jest.spyOn(registry.breaker("users").logger, "warn");
+    registry.breaker("orders");
+  });
+
+  afterEach(done => {
+    registry.shutdownAll();
+    server.close(done);
+  });
+
+  it("should list every breaker with its state and stats", async () => {
+    await listen();
+
+    const { status, body } = await request("GET", "/admin/circuits");
+
+    expect(status).toBe(200);
+    expect(body).toEqual([
+      expect.objectContaining({ name: "users", state: "closed", enabled: true }),
+      expect.objectContaining({ name: "orders", state: "closed", stats: expect.any(Object) }),
+    ]);
+  });
+
+  it("should force a breaker open and closed", async () => {
+    await listen();
+
+    const opened = await request("POST", "/admin/circuits/users/open");
+    expect(opened.body).toMatchObject({ name: "users", state: "open" });
+    expect(registry.get("users")?.state).toBe("open");
+    expect(registry.get("orders")?.state).toBe("closed");
+
+    await request("POST", "/admin/circuits/users/close");
+    expect(registry.get("users")?.state).toBe("closed");
+  });
+
+  it("should hold a breaker it opened open until released", async () => {
+    await listen();
+
+    const opened = await request("POST", "/admin/circuits/users/open");
+    expect(opened.body).toMatchObject({ state: "open", forcedOpen: true, nextAttemptAt: null });
+
+    const released = await request("POST", "/admin/circuits/users/release");
+    expect(released.body).toMatchObject({ state: "half-open", forcedOpen: false });
+  });
+
+  it("should disable and enable a breaker", async () => {
+    await listen();
+
+    await request("POST", "/admin/circuits/users/disable");
+    expect(registry.get("users")?.enabled).toBe(false);
+
+    await request("POST", "/admin/circuits/users/enable");
+    expect(registry.get("users")?.enabled).toBe(true);
+  });
+
+  it("should reset a breaker's stats", async () => {
+    await listen();
+    await registry.get("users")?.["status"].increment("failures");
+
+    const { body } = await request("POST", "/admin/circuits/users/reset");
+
+    expect(body.stats.failures).toBe(0);
+  });
+
+  it("should find breakers whose names contain slashes", async () => {
+    registry.breaker("/api/users");
+    await listen();
+
+    const name = encodeURIComponent("/api/users");
+    const { status } = await request("POST", `/admin/circuits/${name}/open`);
+
+    expect(status).toBe(200);
+    expect(registry.get("/api/users")?.state).toBe("open");
+  });
+
+  it("should answer 404 for unknown breakers", async () => {
+    await listen();
+
+    const { status } = await request("POST", "/admin/circuits/missing/open");
+
+    expect(status).toBe(404);
+  });
+
+  it("should audit-log every change with who made it", async () => {
+    await listen({ actor: req => req.get("x-user") });
+
+    await request("POST", "/admin/circuits/users/open", { "x-user": "alice" });
+
+    expect(audit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "open", actor: "alice", before: "closed", after: "open" }),
+      "Circuit breaker changed through admin router",
+    );
+  });
+
+  it("should turn away requests the authorize hook rejects", async () => {
+    await listen({ authorize: req => req.get("authorization") === "Bearer secret" });
+
+    const denied = await request("POST", "/admin/circuits/users/open");
+    expect(denied.status).toBe(403);
+    expect(registry.get("users")?.state).toBe("closed");
+
+    const allowed = await request("POST", "/admin/circuits/users/open", {
+      authorization: "Bearer secret",
+    });
+    expect(allowed.status).toBe(200);
+  });
+
+  it("should accept a single breaker", async () => {
+    const breaker = new CircuitBreakerMiddleware({
+      name: "solo",
+      logger: pino({ level: "silent" }),
+    });
+    const app = express();
+    app.use(adminRouter(breaker));
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+
+    const { body } = await request("GET", "/circuits");
+
+    expect(body).toEqual([expect.objectContaining({ name: "solo" })]);
+    breaker.shutdown();
+  });
+});
@@ -0,0 +1,75 @@
+import express, { NextFunction, Request, Response, Router } from "express";
+import CircuitBreaker from "./breaker";
+import { BreakerSource, resolveBreakers } from "./source";
+
+type AdminAction = "open" | "release" | "close" | "disable" | "enable" | "reset";
+
+interface AdminRouterOptions {
+  // Decides whether a request may use the admin routes. Resolving false answers 403.
+  // Without it every request is allowed, so mount the router behind your own auth.
+  authorize?: (req: Request) => boolean | Promise<boolean>;
+
+  // Who made the request, for the audit log, e.g. `req => req.user?.email`.
+  actor?: (req: Request) => string | undefined;
+}
+
+const ACTIONS: AdminAction[] = ["open", "release", "close", "disable", "enable", "reset"];
+
+const summary = (breaker: CircuitBreaker) => ({
+  name: breaker.name,
+  state: breaker.state,
+  forcedOpen: breaker.forcedOpen,
+  enabled: breaker.enabled,
+  nextAttemptAt: breaker.nextAttemptAt,
+  stats: breaker.stats,
+});
+
+// An Express router for on-call to inspect breakers and force them open or closed at runtime:
+//   GET  /circuits                                                  every breaker's state and stats
+//   POST /circuits/:name/(open|release|close|disable|enable|reset)  change one breaker
+// A breaker opened here stays open until released or closed here too. Every change is
+// audit-logged through the breaker's own logger.
+function adminRouter(source: BreakerSource, options: AdminRouterOptions = {}): Router {
+  const router = express.Router();
+
+  if (options.authorize) {
+    const authorize = options.authorize;
+    router.use((req: Request, res: Response, next: NextFunction) => {
+      Promise.resolve(authorize(req))
+        .then(allowed => {
+          if (allowed) {
+            next();
+          } else {
+            res.status(403).json({ error: "Forbidden" });
+          }
+        })
+        .catch(next);
+    });
+  }
+
+  router.get("/circuits", (req: Request, res: Response) => {
+    res.json(resolveBreakers(source).map(summary));
+  });
+
+  router.post(`/circuits/:name/:action(${ACTIONS.join("|")})`, (req: Request, res: Response) => {
+    const { name } = req.params;
+    const action = req.params.action as AdminAction;
+    const breaker = resolveBreakers(source).find(candidate => candidate.name === name);
+    if (!breaker) {
+      res.status(404).json({ error: `Unknown circuit: ${name}` });
+      return;
+    }
+
+    const before = breaker.state;
+    breaker[action === "open" ? "forceOpen" : action]();
+    breaker.logger.warn(
+      { action, actor: options.actor?.(req), ip: req.ip, before, after: breaker.state },
+      "Circuit breaker changed through admin router",
+    );
+    res.json(summary(breaker));
+  });
+
+  return router;
+}
+
+export { adminRouter, AdminRouterOptions, AdminAction };
@@ -0,0 +1,49 @@
+import { decorrelatedJitterBackoff, exponentialBackoff, fixedBackoff } from "./backoff";
+
+describe("backoff policies", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should wait the same time on every attempt with fixedBackoff", () => {
+    const policy = fixedBackoff(5000);
+
+    expect([1, 2, 10].map(attempt => policy(attempt, 5000))).toEqual([5000, 5000, 5000]);
+  });
+
+  it("should double the wait up to the cap with exponentialBackoff", () => {
+    const policy = exponentialBackoff(1000, 10000);
+
+    expect([1, 2, 3, 4, 5].map(attempt => policy(attempt, 0))).toEqual([
+      1000, 2000, 4000, 8000, 10000,
+    ]);
+  });
+
+  it("should honour a custom multiplier", () => {
+    expect(exponentialBackoff(100, 100000, 10)(3, 0)).toBe(10000);
+  });
+
+  it("should pick a delay between the initial one and three times the previous", () => {
+    const policy = decorrelatedJitterBackoff(1000, 60000);
+    jest.spyOn(Math, "random").mockReturnValueOnce(0).mockReturnValueOnce(1);
+
+    expect(policy(2, 4000)).toBe(1000);
+    expect(policy(2, 4000)).toBe(12000);
+  });
+
+  it("should spread the first attempt too", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(decorrelatedJitterBackoff(1000, 60000)(1, 0)).toBe(2000);
+  });
+
+  it("should never exceed the cap with decorrelated jitter", () => {
+    const policy = decorrelatedJitterBackoff(1000, 5000);
+    let delay = 0;
+    for (let attempt = 1; attempt <= 50; attempt++) {
+      delay = policy(attempt, delay);
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThanOrEqual(5000);
+    }
+  });
+});
@@ -0,0 +1,27 @@
+// Decides how long an open circuit waits before letting a trial request through. `attempt` is
+// how many times the circuit has opened since it last closed (1 the first time), and
+// `previousDelay` the delay chosen last time, or 0 on the first attempt.
+type BackoffPolicy = (attempt: number, previousDelay: number) => number;
+
+// Waits the same `delay` every time.
+function fixedBackoff(delay: number): BackoffPolicy {
+  return () => delay;
+}
+
+// Waits `initial`, then `multiplier` times longer after every failed trial, up to `max`.
+function exponentialBackoff(initial: number, max: number, multiplier = 2): BackoffPolicy {
+  return attempt => Math.min(max, initial * multiplier ** (attempt - 1));
+}
+
+// Waits a random time between `initial` and three times the previous delay (or `initial` the
+// first time), up to `max`, so replicas that opened together drift apart instead of probing
+// the dependency in lockstep.
+// See "decorrelated jitter" in https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+function decorrelatedJitterBackoff(initial: number, max: number): BackoffPolicy {
+  return (_, previousDelay) => {
+    const upper = Math.max(initial, previousDelay) * 3;
+    return Math.min(max, initial + Math.random() * (upper - initial));
+  };
+}
+
+export { BackoffPolicy, fixedBackoff, exponentialBackoff, decorrelatedJitterBackoff };
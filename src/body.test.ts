@@ -0,0 +1,148 @@
+import http from "http";
+import zlib from "zlib";
+import { RequestHandler } from "express";
+import { CircuitBreakerOptionsParam } from "./circuit";
+import { serve, TestServer } from "./http.fixture";
+
+describe("response body classification", () => {
+  let testServer: TestServer;
+  // What the classifier was handed for the last response
+  let classified: string | undefined;
+  let classify: (body?: string) => boolean;
+
+  const listen = async (route: RequestHandler, options: CircuitBreakerOptionsParam = {}) => {
+    testServer = await serve(route, {
+      name: "graphql",
+      captureBody: 1024,
+      isError: (res, err, body) => {
+        classified = body;
+        return classify(body);
+      },
+      ...options,
+    });
+  };
+
+  // Requests the route, resolving once the breaker has settled the request too
+  const request = async () => {
+    const { breaker } = testServer;
+    const settled = new Promise(done => {
+      breaker.once("success", done);
+      breaker.once("failure", done);
+    });
+    const reply = await testServer.get();
+    await settled;
+    return reply;
+  };
+
+  beforeEach(() => {
+    classified = undefined;
+    classify = () => false;
+  });
+
+  afterEach(() => testServer.close());
+
+  it("should fail a 200 whose JSON body carries errors", async () => {
+    classify = body => body !== undefined && JSON.parse(body).errors !== undefined;
+    await listen((req, res) => res.json({ data: null, errors: [{ message: "Upstream down" }] }));
+
+    const reply = await request();
+
+    expect(reply.status).toBe(200);
+    expect(JSON.parse(classified as string)).toEqual({
+      data: null,
+      errors: [{ message: "Upstream down" }],
+    });
+    expect(testServer.breaker.stats).toEqual(
+      expect.objectContaining({ successes: 0, failures: 1 }),
+    );
+  });
+
+  it("should pass a chunked body through untouched and classify all of it", async () => {
+    await listen((req, res) => {
+      res.setHeader("Content-Type", "text/plain");
+      res.write("one,");
+      res.write(Buffer.from("two,"));
+      setTimeout(() => res.end("three"), 10);
+    });
+
+    const reply = await request();
+
+    expect(reply.headers["transfer-encoding"]).toBe("chunked");
+    expect(reply.body.toString()).toBe("one,two,three");
+    expect(classified).toBe("one,two,three");
+    expect(testServer.breaker.stats.successes).toBe(1);
+  });
+
+  it("should stream an oversized body in full but not hand it to the classifier", async () => {
+    const chunk = "x".repeat(600);
+    await listen((req, res) => {
+      res.write(chunk);
+      res.write(chunk);
+      res.end(chunk);
+    });
+
+    const reply = await request();
+
+    expect(reply.body.toString()).toBe(chunk.repeat(3));
+    expect(classified).toBeUndefined();
+    expect(testServer.breaker.stats.successes).toBe(1);
+  });
+
+  it("should decompress a gzipped body", async () => {
+    const json = JSON.stringify({ errors: [{ message: "Bad gateway" }] });
+    await listen((req, res) => {
+      res.setHeader("Content-Encoding", "gzip");
+      res.setHeader("Content-Type", "application/json");
+      res.end(zlib.gzipSync(json));
+    });
+
+    const reply = await request();
+
+    expect(zlib.gunzipSync(reply.body).toString()).toBe(json);
+    expect(classified).toBe(json);
+  });
+
+  it("should not inflate a gzipped body past the limit", async () => {
+    await listen((req, res) => {
+      res.setHeader("Content-Encoding", "gzip");
+      res.end(zlib.gzipSync("x".repeat(100000)));
+    });
+
+    await request();
+
+    expect(classified).toBeUndefined();
+  });
+
+  it("should count a classifier that throws as a failure and free the request's slot", async () => {
+    classify = body => JSON.parse(body as string).errors !== undefined;
+    await listen((req, res) => res.type("html").send("<h1>Bad gateway</h1>"), {
+      capacity: 1,
+      volumeThreshold: 10,
+      timeout: false,
+    });
+
+    await request();
+    const reply = await request();
+
+    expect(reply.body.toString()).toBe("<h1>Bad gateway</h1>");
+    expect(testServer.breaker.stats).toEqual(
+      expect.objectContaining({ fires: 2, failures: 2, semaphoreRejections: 0 }),
+    );
+  });
+
+  it("should leave the body alone unless asked to", async () => {
+    let write: unknown;
+    await listen(
+      (req, res) => {
+        write = res.write;
+        res.json({ errors: [] });
+      },
+      { captureBody: false },
+    );
+
+    await request();
+
+    expect(write).toBe(http.ServerResponse.prototype.write);
+    expect(classified).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import zlib from "zlib";
+import { Response } from "express";
+
+// Decompresses a captured body, refusing to inflate it past `limit` bytes.
+const DECODERS: Record<string, (buf: Buffer, limit: number) => Buffer> = {
+  gzip: (buf, limit) => zlib.gunzipSync(buf, { maxOutputLength: limit }),
+  "x-gzip": (buf, limit) => zlib.gunzipSync(buf, { maxOutputLength: limit }),
+  deflate: (buf, limit) => zlib.inflateSync(buf, { maxOutputLength: limit }),
+  br: (buf, limit) => zlib.brotliDecompressSync(buf, { maxOutputLength: limit }),
+};
+
+// Tees whatever the route writes to a response into a buffer of at most `limit` bytes, so the
+// body can be classified once the response has finished. Every write still goes straight
+// through to the client as before; a body that outgrows the limit is dropped, not buffered.
+class BodyCapture {
+  private readonly limit: number;
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private overflowed = false;
+
+  constructor(res: Response, limit: number) {
+    this.limit = limit;
+    const write = res.write as (...args: unknown[]) => boolean;
+    const end = res.end as (...args: unknown[]) => Response;
+    Object.assign(res, {
+      write: (chunk: unknown, ...args: unknown[]) => {
+        this.capture(chunk, args[0]);
+        return write.call(res, chunk, ...args);
+      },
+      end: (chunk?: unknown, ...args: unknown[]) => {
+        this.capture(chunk, args[0]);
+        return end.call(res, chunk, ...args);
+      },
+    });
+  }
+
+  // The body as the route wrote it, decompressed according to `Content-Encoding` and decoded
+  // as UTF-8. Undefined if it outgrew the limit, compressed or not, or uses an encoding we
+  // can't decompress. A body the header claims is compressed but isn't, as when compression
+  // happens further out than the breaker, is returned as is.
+  public body(res: Response): string | undefined {
+    if (this.overflowed) return undefined;
+    const raw = Buffer.concat(this.chunks);
+    const encoding = String(res.getHeader("Content-Encoding") ?? "identity").toLowerCase();
+    if (encoding === "identity") return raw.toString("utf8");
+
+    const decode = DECODERS[encoding];
+    if (!decode) return undefined;
+    try {
+      return decode(raw, this.limit).toString("utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") return undefined;
+      return raw.toString("utf8");
+    }
+  }
+
+  private capture(chunk: unknown, encoding: unknown) {
+    if (this.overflowed || chunk === undefined || chunk === null || typeof chunk === "function") {
+      return;
+    }
+    const bufferEncoding = typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8";
+    const length =
+      typeof chunk === "string"
+        ? Buffer.byteLength(chunk, bufferEncoding)
+        : (chunk as Uint8Array).byteLength;
+    if (this.size + length > this.limit) {
+      this.overflowed = true;
+      this.chunks = [];
+      return;
+    }
+    // Copied, since the route is free to reuse its buffers once written
+    this.chunks.push(
+      typeof chunk === "string"
+        ? Buffer.from(chunk, bufferEncoding)
+        : Buffer.from(chunk as Uint8Array),
+    );
+    this.size += length;
+  }
+}
+
+export { BodyCapture };
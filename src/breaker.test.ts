@@ -0,0 +1,233 @@
+import pino from "pino";
+import CircuitBreaker, { CallContext } from "./breaker";
+import { CircuitOpenError, CircuitTimeoutError } from "./errors";
+
+describe("CircuitBreaker", () => {
+  let breaker: CircuitBreaker;
+  const options = {
+    timeout: 1000,
+    resetTimeout: 30000,
+    errorThresholdPercentage: 50,
+    logger: pino({ level: "silent" }),
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breaker = new CircuitBreaker(options);
+  });
+
+  afterEach(() => {
+    breaker.shutdown();
+    jest.useRealTimers();
+  });
+
+  describe("execute", () => {
+    it("should pass the result through and count a success", async () => {
+      await expect(breaker.execute(async () => 42)).resolves.toBe(42);
+
+      expect(breaker.stats).toEqual(expect.objectContaining({ fires: 1, successes: 1 }));
+    });
+
+    it("should pass errors through and count them as failures", async () => {
+      const err = new Error("ECONNRESET");
+
+      await expect(breaker.execute(() => Promise.reject(err))).rejects.toBe(err);
+
+      expect(breaker.stats.failures).toBe(1);
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should count a function that throws synchronously as a failure", async () => {
+      await expect(
+        breaker.execute(() => {
+          throw new Error("bad input");
+        }),
+      ).rejects.toThrow("bad input");
+
+      expect(breaker.stats.failures).toBe(1);
+    });
+
+    it("should only count the errors isError picks out", async () => {
+      breaker.shutdown();
+      breaker = new CircuitBreaker({
+        ...options,
+        isError: err => !(err instanceof Error && err.message === "Not found"),
+      });
+
+      await expect(breaker.execute(() => Promise.reject(new Error("Not found")))).rejects.toThrow();
+
+      expect(breaker.stats.failures).toBe(0);
+      expect(breaker.stats.successes).toBe(1);
+      expect(breaker.state).toBe("closed");
+    });
+
+    it("should count an error isError throws on as a failure and still reject", async () => {
+      breaker.shutdown();
+      breaker = new CircuitBreaker({
+        ...options,
+        isError: err => (err as { response: { status: number } }).response.status >= 500,
+      });
+      const err = new Error("ECONNRESET");
+
+      await expect(breaker.execute(() => Promise.reject(err))).rejects.toBe(err);
+
+      expect(breaker.stats.failures).toBe(1);
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should reject without calling the function while open", async () => {
+      breaker.open();
+      const fn = jest.fn(async () => 42);
+
+      const result = breaker.execute(fn);
+
+      await expect(result).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(result).rejects.toMatchObject({ circuit: breaker.name, state: "open" });
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it("should time out, abort the signal and ignore the late result", async () => {
+      let signal: AbortSignal | undefined;
+      const result = breaker.execute(s => {
+        signal = s;
+        return new Promise(resolve => setTimeout(() => resolve(42), 5000));
+      });
+      const rejection = expect(result).rejects.toBeInstanceOf(CircuitTimeoutError);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await rejection;
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(CircuitTimeoutError);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(breaker.stats).toEqual(
+        expect.objectContaining({ timeouts: 1, failures: 1, successes: 0 }),
+      );
+    });
+
+    it("should hold a timed-out call's slot until the call returns", async () => {
+      breaker.shutdown();
+      breaker = new CircuitBreaker({ ...options, capacity: 1, volumeThreshold: 5 });
+      const slow = breaker.execute(() => new Promise(resolve => setTimeout(resolve, 5000)));
+      const rejection = expect(slow).rejects.toBeInstanceOf(CircuitTimeoutError);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await rejection;
+      await expect(breaker.execute(async () => 42)).rejects.toThrow("Circuit is at capacity");
+
+      await jest.advanceTimersByTimeAsync(4000);
+      await expect(breaker.execute(async () => 42)).resolves.toBe(42);
+    });
+
+    it("should call straight through while disabled", async () => {
+      breaker.disable();
+      breaker.open();
+
+      await expect(breaker.execute(async () => 42)).resolves.toBe(42);
+      expect(breaker.stats.fires).toBe(0);
+    });
+
+    it("should emit the same events as the middleware", async () => {
+      const success = jest.fn();
+      const failure = jest.fn();
+      breaker.on("success", success);
+      breaker.on("failure", failure);
+
+      await breaker.execute(async () => 42);
+      await breaker.execute(() => Promise.reject(new Error("down"))).catch(() => undefined);
+      await Promise.resolve();
+
+      expect(success).toHaveBeenCalledWith(expect.objectContaining({ latency: 0 }));
+      expect(failure).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: expect.objectContaining({ message: "down" }) }),
+      );
+    });
+
+    it("should only build event payloads someone is listening for", async () => {
+      const stats = jest.spyOn(breaker, "stats", "get");
+
+      await breaker.execute(async () => 42);
+      expect(stats).not.toHaveBeenCalled();
+
+      const success = jest.fn();
+      breaker.on("success", success);
+      await breaker.execute(async () => 42);
+      expect(stats).toHaveBeenCalledTimes(1);
+      expect(success).toHaveBeenCalledWith(
+        expect.objectContaining({ stats: expect.objectContaining({ successes: 2 }) }),
+      );
+    });
+  });
+
+  describe("wrap", () => {
+    it("should guard every call of the wrapped function", async () => {
+      const lookup = breaker.wrap(async (id: string, retries: number) => `${id}:${retries}`);
+
+      await expect(lookup("users", 3)).resolves.toBe("users:3");
+      expect(breaker.stats.fires).toBe(1);
+    });
+
+    it("should hand the function its signal as this.signal", async () => {
+      const lookup = breaker.wrap(async function (this: CallContext, id: string) {
+        return this.signal.aborted ? "aborted" : id;
+      });
+
+      await expect(lookup("users")).resolves.toBe("users");
+    });
+
+    it("should create a breaker that fires the function, named after it", async () => {
+      const getUser = async (id: number) => ({ id });
+      const users = CircuitBreaker.wrap(getUser, options);
+
+      await expect(users.fire(7)).resolves.toEqual({ id: 7 });
+      expect(users.name).toBe("getUser");
+      expect(users.stats.successes).toBe(1);
+      users.shutdown();
+    });
+
+    it("should refuse to fire a breaker without a function", async () => {
+      await expect(breaker.fire()).rejects.toThrow("CircuitBreaker.wrap()");
+    });
+  });
+
+  describe("forceOpen", () => {
+    it("should hold the circuit open past the reset timeout until released", () => {
+      breaker.forceOpen();
+
+      jest.advanceTimersByTime(options.resetTimeout * 10);
+      expect(breaker.state).toBe("open");
+      expect(breaker.nextAttemptAt).toBeNull();
+
+      breaker.release();
+      expect(breaker.state).toBe("half-open");
+      expect(breaker.forcedOpen).toBe(false);
+    });
+
+    it("should hold a circuit that was already open", () => {
+      breaker.open();
+      breaker.forceOpen();
+
+      jest.advanceTimersByTime(options.resetTimeout * 10);
+
+      expect(breaker.state).toBe("open");
+    });
+
+    it("should let go when closed", () => {
+      breaker.forceOpen();
+      breaker.close();
+      breaker.open();
+
+      jest.advanceTimersByTime(options.resetTimeout);
+
+      expect(breaker.state).toBe("half-open");
+    });
+
+    it("should leave a circuit that wasn't forced open alone on release", () => {
+      breaker.open();
+
+      breaker.release();
+
+      expect(breaker.state).toBe("open");
+    });
+  });
+});
@@ -0,0 +1,1147 @@
+import EventEmitter from "events";
+import { Request } from "express";
+import pino from "pino";
+import { BackoffPolicy } from "./backoff";
+import { CircuitOpenError, CircuitTimeoutError, InvalidSnapshotError } from "./errors";
+import { HealthCheck, httpHealthCheck } from "./health";
+import { Semaphore } from "./semaphore";
+import { CircuitBreakerSnapshot, SNAPSHOT_VERSION, parseSnapshot } from "./snapshot";
+import { SlidingWindowType, Stats, Status, Totals } from "./status";
+import { CircuitStateStore, StoredCounts, StoredState } from "./store";
+
+// The options every breaker shares, whatever it guards.
+interface CircuitBreakerBaseOptions {
+  // Indicates if the circuit breaker should only log errors without stopping the execution flow.
+  logOnly?: boolean;
+
+  // The time in milliseconds that an action should be allowed to execute before timing out.
+  // A timed-out call is recorded as a failure and its AbortSignal fires. The middleware can't
+  // cancel the underlying request, since that's not generally safe in Express, but can answer
+  // it on the route's behalf with `timeoutMode: "respond"`.
+  // Setting this to `false` disables the timeout feature.
+  timeout?: number | false;
+
+  // The time in milliseconds to wait before setting the breaker to `halfOpen` state,
+  // and trying the action again.
+  resetTimeout?: number;
+
+  // Varies the wait before each half-open trial instead of always waiting `resetTimeout`, e.g.
+  // `exponentialBackoff(1000, 60000)` to back off from a dependency that keeps failing its
+  // trials, or `decorrelatedJitterBackoff(1000, 60000)` to keep replicas from probing in
+  // lockstep. The attempt count starts over whenever the circuit closes.
+  resetBackoff?: BackoffPolicy;
+
+  // Sets the duration of the statistical rolling window, in milliseconds.
+  rollingCountTimeout?: number;
+
+  // Sets the number of buckets the rolling statistical window is divided into.
+  rollingCountBuckets?: number;
+
+  // Whether the error rate is judged over the last `rollingCountTimeout` milliseconds ("time",
+  // the default) or over the last `slidingWindowSize` calls ("count"), which suits endpoints
+  // too quiet to fill a time window.
+  slidingWindowType?: SlidingWindowType;
+
+  // The number of calls in the window when `slidingWindowType` is "count".
+  slidingWindowSize?: number;
+
+  // The circuit name to use when reporting stats. Defaults to the name of the function
+  // this circuit controls.
+  name?: string;
+
+  // Indicates whether execution latencies should be tracked and calculated as percentiles.
+  rollingPercentilesEnabled?: boolean;
+
+  // The precision of the latency histograms behind those percentiles, in significant decimal
+  // digits from 1 to 5. Higher is more accurate but takes more memory per bucket.
+  histogramSignificantDigits?: number;
+
+  // The maximum number of requests this circuit lets through at once. Requests beyond that are
+  // rejected through the fallback and counted in `semaphoreRejections`, not as failures.
+  capacity?: number;
+
+  // How many requests may wait for a free slot once `capacity` is reached. 0 (the default)
+  // rejects them straight away.
+  maxQueueSize?: number;
+
+  // How long, in milliseconds, a queued request waits for a free slot before being rejected.
+  queueTimeout?: number;
+
+  // Requests taking at least this many milliseconds count as slow calls, whether they succeed
+  // or not. Setting this to `false` (the default) disables slow-call tracking.
+  slowCallDurationThreshold?: number | false;
+
+  // The percentage of slow calls at or above which to open the circuit, just as
+  // `errorThresholdPercentage` does for failures. Subject to `volumeThreshold` too.
+  slowCallRateThreshold?: number;
+
+  // The error percentage at which to open the circuit and start short-circuiting requests to fallback.
+  errorThresholdPercentage?: number;
+
+  // How much a call in each category weighs on the error rate, where a success weighs nothing.
+  // Both default to 1; e.g. `{ rateLimited: 0.5 }` takes two rate-limited calls to weigh as much
+  // as one failure. A half-open trial in a category that weighs anything re-opens the circuit.
+  categoryWeights?: CategoryWeights;
+
+  // Whether a call the caller gives up on before it settles, e.g. a mobile app cancelling a
+  // navigation, counts as a failure toward the error rate. Either way it is counted in
+  // `clientAborts` and emits a `clientAbort` event, and one that doesn't count is left out of
+  // the `fires` the rate is worked out over. Defaults to false, since it says nothing about the
+  // health of what the breaker guards.
+  countClientAborts?: boolean;
+
+  // The maximum number of trial requests let through at once while the circuit is half-open.
+  // Everything beyond that is rejected through the fallback until the trials settle.
+  halfOpenMaxRequests?: number;
+
+  // The number of successful trial requests needed to close a half-open circuit.
+  // A single failed trial re-opens it.
+  halfOpenSuccessThreshold?: number;
+
+  // Lets traffic back gradually once the circuit closes instead of all at once, e.g.
+  // `{ duration: 30000, steps: [10, 25, 50] }` admits 10% of requests for 10 seconds, then 25%,
+  // then 50%, then all of them. Requests not admitted get the fallback. If more than
+  // `errorThresholdPercentage` of the admitted requests fail (once `volumeThreshold` of them
+  // have settled) the circuit re-opens. `false` (the default) goes straight to full traffic.
+  rampUp?: RampUpOptions | false;
+
+  // Whether this circuit is enabled upon construction.
+  enabled?: boolean;
+
+  // Determines whether to allow failures without opening the circuit during a brief warmup period.
+  // This can help in situations where, regardless of the `errorThresholdPercentage`, if the first
+  // execution times out or fails, the circuit immediately opens.
+  allowWarmUp?: boolean;
+
+  // The minimum number of requests within the rolling statistical window that must exist
+  // before the circuit breaker can open. This ensures that the circuit remains closed if
+  // the number of requests within the statistical window does not exceed this threshold,
+  // regardless of how many failures there are.
+  // Note that volumeThreshold is a == comparison, not a >= comparison.
+  volumeThreshold?: number;
+
+  // A logger instance for the circuit breaker to use for logging. Allows integration with different
+  // logging libraries/frameworks.
+  logger?: pino.Logger;
+
+  // If you have multiple breakers in your app, the number of timers across breakers can get costly.
+  // This option allows you to provide an EventEmitter that rotates the buckets so you can have one
+  // global timer in your app. Make sure that you are emitting a 'rotate' event from this EventEmitter.
+  // `globalRotateBucketController(interval)` returns a ready-made shared one.
+  rotateBucketController?: EventEmitter;
+
+  // Shares open/close decisions and rolling counts with other processes through this store, so
+  // every replica learns about a failing dependency from the first one to notice.
+  stateStore?: CircuitStateStore;
+
+  // How often, in milliseconds, to publish counts to and pick up state from the `stateStore`.
+  stateSyncInterval?: number;
+
+  // Carries on from a snapshot previously taken with `toJSON()`, e.g. by the process this one
+  // replaced, so a restart mid-outage does not slam the dependency with a closed circuit.
+  snapshot?: CircuitBreakerSnapshot;
+
+  // Probes the dependency while the circuit is open, so it can recover without risking a user
+  // request on it: either a function resolving whether it is healthy, or a URL that must
+  // answer a GET with a 2xx status.
+  healthCheck?: HealthCheck | string;
+
+  // How often, in milliseconds, to run the `healthCheck` while the circuit is open.
+  healthCheckInterval?: number;
+
+  // How long, in milliseconds, a URL `healthCheck` may take to answer before it counts as
+  // failed. Defaults to 2000.
+  healthCheckTimeout?: number;
+
+  // Where a passing health check moves the open circuit: "half-open" (the default), to let
+  // trial requests confirm the recovery, or straight to "closed".
+  healthCheckRecovery?: "half-open" | "closed";
+
+  // After this many health checks in a row fail, the open period starts over with the next
+  // `resetBackoff` delay instead of going half-open when it was due to.
+  healthCheckFailureThreshold?: number;
+}
+
+interface CircuitBreakerCoreOptions extends CircuitBreakerBaseOptions {
+  // Decides whether an error thrown by a guarded call counts as a failure. Errors it returns
+  // false for are passed on to the caller but recorded as successes, e.g. a 404 from an API
+  // client. Every error counts by default.
+  isError?: (err: unknown) => boolean;
+}
+
+type OptionalOptions =
+  "rotateBucketController" | "stateStore" | "snapshot" | "resetBackoff" | "healthCheck";
+
+type CircuitBreakerOptions = Required<Omit<CircuitBreakerCoreOptions, OptionalOptions>> &
+  Pick<CircuitBreakerCoreOptions, OptionalOptions>;
+
+type RampUpOptions = {
+  // How long the whole ramp takes, in milliseconds, split evenly between the steps.
+  duration: number;
+  // The percentages of requests admitted in turn. Defaults to 10, 25 and 50.
+  steps?: number[];
+};
+
+type CircuitState = "open" | "closed" | "half-open" | "shutdown";
+
+// How a call that ran its course is counted. "ignored" calls, such as a 404 for a missing
+// record, leave the error rate alone altogether: neither successes nor failures, and left out of
+// the `fires` it is worked out over.
+type OutcomeCategory = "success" | "failure" | "ignored" | "rateLimited";
+
+type CategoryWeights = { failure?: number; rateLimited?: number };
+
+// Payload passed to every circuit breaker event listener.
+type CircuitBreakerEvent = {
+  // The name of the circuit that emitted the event.
+  name: string;
+  // The state of the circuit at the time the event was emitted.
+  state: CircuitState;
+  // A snapshot of the rolling statistics at the time the event was emitted.
+  stats: Stats;
+  // The request that triggered the event, if any. Manual transitions such as `open()` have none.
+  req?: Request;
+  // How long the request had been running, in milliseconds.
+  latency?: number;
+  // Why the event was emitted, e.g. the error behind a failure or why a request was rejected.
+  reason?: Error | string;
+  // While the circuit is open, when it will let the next trial request through, in
+  // milliseconds since the epoch.
+  nextAttemptAt?: number;
+};
+
+type CircuitBreakerListener = (event: CircuitBreakerEvent) => void;
+
+interface CircuitBreakerEvents {
+  open: CircuitBreakerListener;
+  close: CircuitBreakerListener;
+  halfOpen: CircuitBreakerListener;
+  reject: CircuitBreakerListener;
+  success: CircuitBreakerListener;
+  failure: CircuitBreakerListener;
+  fallback: CircuitBreakerListener;
+  timeout: CircuitBreakerListener;
+  rateLimited: CircuitBreakerListener;
+  ignored: CircuitBreakerListener;
+  clientAbort: CircuitBreakerListener;
+  shutdown: CircuitBreakerListener;
+  snapshot: (stats: Stats) => void;
+}
+
+// Passed to the functions guarded by `execute()`, `wrap()` and `fire()` as `this`.
+type CallContext = {
+  // Aborted, with a CircuitTimeoutError as its reason, when the call times out. Node records
+  // abort reasons from 16.14 on, hence the minimum version in `engines`.
+  signal: AbortSignal;
+};
+
+// Whether an `admit()`ted call may go ahead, and if so how to give back the slots it holds and
+// how to record its outcome: whatever `record` counts goes to the call's own bucket of a
+// "count" window.
+type Admission =
+  | { admitted: true; release: () => void; record: (count: () => void) => void }
+  | { admitted: false; reason: string };
+
+// Typed overloads for the EventEmitter methods, merged into the class declaration below.
+interface CircuitBreaker {
+  on<E extends keyof CircuitBreakerEvents>(event: E, listener: CircuitBreakerEvents[E]): this;
+  once<E extends keyof CircuitBreakerEvents>(event: E, listener: CircuitBreakerEvents[E]): this;
+  off<E extends keyof CircuitBreakerEvents>(event: E, listener: CircuitBreakerEvents[E]): this;
+  emit<E extends keyof CircuitBreakerEvents>(
+    event: E,
+    ...args: Parameters<CircuitBreakerEvents[E]>
+  ): boolean;
+}
+
+const DEFAULT_RAMP_STEPS = [10, 25, 50];
+
+const toError = (err: unknown): Error => (err instanceof Error ? err : new Error(String(err)));
+
+// The state machine, rolling stats and everything built on them, for any kind of call. Guard a
+// promise-returning function with `execute()`, `wrap()` or `CircuitBreaker.wrap(fn).fire()`;
+// CircuitBreakerMiddleware adapts it to Express requests.
+class CircuitBreaker<A extends unknown[] = unknown[], R = unknown> extends EventEmitter {
+  // State variables
+  protected readonly status: Status;
+  private readonly semaphore: Semaphore;
+  protected readonly options: CircuitBreakerOptions;
+  private action?: (this: CallContext, ...args: A) => Promise<R>;
+  private readonly warmupTimeout: NodeJS.Timeout | null = null;
+
+  private _state: CircuitState = "closed";
+  private warmUp: boolean;
+  private lastTimerAt: number = Date.now();
+  private resetDelay = 0;
+  // How many times the circuit has opened since it last closed, for the reset backoff.
+  private openAttempts = 0;
+  private resetTimeout: NodeJS.Timeout | null = null;
+  private halfOpenInFlight = 0;
+  private halfOpenSuccesses = 0;
+
+  // Recovery ramp bookkeeping: the current step, or null when not ramping up
+  private rampStep: number | null = null;
+  private rampTimeout: NodeJS.Timeout | null = null;
+  private rampCounts = { settled: 0, failures: 0 };
+  // Whether `forceOpen()` is holding the circuit open until `release()` or `close()`
+  private _forcedOpen = false;
+  // Which ramp this is, so calls admitted before it started aren't judged by it
+  private rampRun = 0;
+  // Whether the call being recorded was admitted by the current ramp
+  private recordingRampCall = false;
+
+  // Health check bookkeeping
+  private readonly healthCheck?: HealthCheck;
+  private healthCheckTimeout: NodeJS.Timeout | null = null;
+  // Bumped whenever the circuit stops being open, so a check still in flight is ignored
+  private healthCheckRun = 0;
+  private healthCheckFailures = 0;
+
+  // State store bookkeeping
+  private storeVersion = 0;
+  private flushedTotals: Totals;
+  private sharedCounts?: StoredCounts;
+  private syncTimeout: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(options: CircuitBreakerCoreOptions = {}) {
+    super();
+    this.options = {
+      name: "circuit-breaker-" + Math.random(),
+      logOnly: false,
+      timeout: 10000,
+      resetTimeout: 30000,
+      rollingCountTimeout: 10000,
+      rollingCountBuckets: 10,
+      rollingPercentilesEnabled: true,
+      slidingWindowType: "time",
+      slidingWindowSize: 100,
+      histogramSignificantDigits: 2,
+      capacity: Number.MAX_SAFE_INTEGER,
+      maxQueueSize: 0,
+      queueTimeout: 1000,
+      errorThresholdPercentage: 50,
+      categoryWeights: {},
+      countClientAborts: false,
+      slowCallDurationThreshold: false,
+      slowCallRateThreshold: 100,
+      halfOpenMaxRequests: 1,
+      halfOpenSuccessThreshold: 1,
+      rampUp: false,
+      enabled: true,
+      allowWarmUp: false,
+      volumeThreshold: 0,
+      isError: () => true,
+      logger: pino(),
+      stateSyncInterval: 1000,
+      healthCheckInterval: 5000,
+      healthCheckTimeout: 2000,
+      healthCheckRecovery: "half-open",
+      healthCheckFailureThreshold: 3,
+      ...options,
+    };
+    this.healthCheck =
+      typeof this.options.healthCheck === "string"
+        ? httpHealthCheck(this.options.healthCheck, this.options.healthCheckTimeout)
+        : this.options.healthCheck;
+    this.status = new Status({
+      slidingWindowType: this.options.slidingWindowType,
+      slidingWindowSize: this.options.slidingWindowSize,
+      rollingCountBuckets: this.options.rollingCountBuckets,
+      rollingCountTimeout: this.options.rollingCountTimeout,
+      rollingPercentilesEnabled: this.options.rollingPercentilesEnabled,
+      histogramSignificantDigits: this.options.histogramSignificantDigits,
+      rotateBucketController: this.options.rotateBucketController,
+    });
+    this.semaphore = new Semaphore({
+      capacity: this.options.capacity,
+      maxQueueSize: this.options.maxQueueSize,
+      queueTimeout: this.options.queueTimeout,
+    });
+    // Forward the status's snapshots only while someone listens to ours, so a breaker nobody
+    // watches doesn't aggregate its stats on every rotation
+    const forwardSnapshot = (stats: Stats) => this.emit("snapshot", stats);
+    super.on("newListener", (event: string | symbol) => {
+      if (event === "snapshot" && this.listenerCount("snapshot") === 0) {
+        this.status.on("snapshot", forwardSnapshot);
+      }
+    });
+    super.on("removeListener", (event: string | symbol) => {
+      if (event === "snapshot" && this.listenerCount("snapshot") === 0) {
+        this.status.off("snapshot", forwardSnapshot);
+      }
+    });
+
+    this.warmUp = this.options.allowWarmUp;
+
+    if (this.warmUp) {
+      this.warmupTimeout = setTimeout(() => {
+        this.warmUp = false;
+      }, this.options.rollingCountTimeout);
+    }
+
+    this.options.logger = this.options.logger.child({
+      name: this.options.name,
+      type: "circuit-breaker",
+      status: this.status.stats,
+    });
+
+    if (this.options.snapshot) {
+      this.restore(this.options.snapshot);
+    }
+
+    this.flushedTotals = this.status.totals;
+    const store = this.options.stateStore;
+    if (store) {
+      if (store.subscribe) {
+        this.unsubscribe = store.subscribe(this.options.name, remote =>
+          this.applyRemoteState(remote),
+        );
+      }
+      this.sync();
+    }
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  get stats(): Stats {
+    const stats = this.status.stats;
+    const rampUpPercentage = this.rampUpPercentage;
+    return rampUpPercentage === null ? stats : { ...stats, rampUpPercentage };
+  }
+
+  // The percentage of requests admitted while ramping back up after closing, or `null` if the
+  // breaker is not ramping up.
+  get rampUpPercentage(): number | null {
+    const rampUp = this.options.rampUp;
+    if (rampUp === false || this.rampStep === null) return null;
+    return (rampUp.steps ?? DEFAULT_RAMP_STEPS)[this.rampStep];
+  }
+
+  get totals(): Totals {
+    return this.status.totals;
+  }
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  get logger(): pino.Logger {
+    return this.options.logger;
+  }
+
+  get forcedOpen(): boolean {
+    return this._forcedOpen;
+  }
+
+  // When the open circuit will let the next trial request through, or `null` if it is not open
+  // or is being held open.
+  get nextAttemptAt(): number | null {
+    return this._state === "open" && !this._forcedOpen ? this.lastTimerAt + this.resetDelay : null;
+  }
+
+  // Emits a circuit event, building its payload, stats and all, only if anyone is listening.
+  protected notify(
+    event: Exclude<keyof CircuitBreakerEvents, "snapshot">,
+    fields?: Partial<CircuitBreakerEvent>,
+  ) {
+    if (this.listenerCount(event) > 0) this.emit(event, this.event(fields));
+  }
+
+  protected event(fields: Partial<CircuitBreakerEvent> = {}): CircuitBreakerEvent {
+    const nextAttemptAt = this.nextAttemptAt;
+    return {
+      name: this.options.name,
+      state: this._state,
+      stats: this.stats,
+      ...(nextAttemptAt !== null && { nextAttemptAt }),
+      ...fields,
+    };
+  }
+
+  // The wait before the next half-open trial, from the backoff policy if there is one.
+  private nextResetDelay(): number {
+    this.openAttempts++;
+    const policy = this.options.resetBackoff;
+    if (!policy) return this.options.resetTimeout;
+    const previous = this.openAttempts > 1 ? this.resetDelay : 0;
+    return Math.max(0, policy(this.openAttempts, previous));
+  }
+
+  private startTimer(delay: number = this.options.resetTimeout) {
+    this.lastTimerAt = Date.now();
+    this.resetDelay = delay;
+    this.resetTimeout = setTimeout(() => {
+      this.options.logger.debug("Circuit breaker reset timeout: moving to half-open");
+      this.toHalfOpen("Reset timeout elapsed");
+    }, delay);
+  }
+
+  // How long until an open circuit goes half-open, in milliseconds.
+  private resetRemaining(): number {
+    return Math.max(0, this.lastTimerAt + this.resetDelay - Date.now());
+  }
+
+  // Publishes counts to the state store, then picks up the shared counts and state.
+  private async sync(): Promise<void> {
+    const store = this.options.stateStore;
+    if (!store || this._state === "shutdown") return;
+
+    const { name, rollingCountTimeout, rollingCountBuckets } = this.options;
+    const bucketDuration = rollingCountTimeout / rollingCountBuckets;
+    const bucket = Math.floor(Date.now() / bucketDuration);
+    try {
+      const totals = this.status.totals;
+      const delta: StoredCounts = {
+        fires: totals.fires - this.flushedTotals.fires,
+        failures: totals.failures - this.flushedTotals.failures,
+        successes: totals.successes - this.flushedTotals.successes,
+        timeouts: totals.timeouts - this.flushedTotals.timeouts,
+        slowCalls: totals.slowCalls - this.flushedTotals.slowCalls,
+        rateLimited: totals.rateLimited - this.flushedTotals.rateLimited,
+        ignored: totals.ignored - this.flushedTotals.ignored,
+        clientAborts: totals.clientAborts - this.flushedTotals.clientAborts,
+      };
+      if (Object.values(delta).some(count => count > 0)) {
+        await store.incrementCounts(name, bucket, delta, rollingCountTimeout + bucketDuration);
+      }
+      this.flushedTotals = totals;
+
+      const buckets = Array.from({ length: rollingCountBuckets }, (_, i) => bucket - i);
+      this.sharedCounts = await store.getCounts(name, buckets);
+      const remote = await store.getState(name);
+      if (remote) this.applyRemoteState(remote);
+    } catch (err) {
+      // Judge the error rate on local counts alone until the store is reachable again
+      this.sharedCounts = undefined;
+      this.options.logger.error({ err }, "Circuit breaker state sync failed");
+    } finally {
+      this.scheduleSync();
+    }
+  }
+
+  private scheduleSync() {
+    if (this._state !== "shutdown") {
+      this.syncTimeout = setTimeout(() => this.sync(), this.options.stateSyncInterval);
+    }
+  }
+
+  private applyRemoteState(remote: StoredState) {
+    if (remote.version <= this.storeVersion || this._state === "shutdown") return;
+    this.storeVersion = remote.version;
+
+    if (remote.state === "open" && this._state !== "open") {
+      this.options.logger.warn("Circuit breaker opened by another process");
+      const elapsed = Date.now() - remote.changedAt;
+      this.toOpen(Math.max(0, this.nextResetDelay() - elapsed));
+    } else if (remote.state === "closed" && this._state !== "closed" && !this._forcedOpen) {
+      this.options.logger.info("Circuit breaker closed by another process");
+      this.toClosed();
+    }
+  }
+
+  private publishState(state: StoredState["state"]) {
+    const store = this.options.stateStore;
+    if (!store) return;
+
+    const next: StoredState = { state, changedAt: Date.now(), version: this.storeVersion + 1 };
+    store
+      .compareAndSetState(this.options.name, this.storeVersion, next)
+      .then(async published => {
+        if (published) {
+          this.storeVersion = Math.max(this.storeVersion, next.version);
+          return;
+        }
+        // Another process transitioned first, so adopt its decision instead
+        const remote = await store.getState(this.options.name);
+        if (remote) this.applyRemoteState(remote);
+      })
+      .catch((err: Error) => {
+        this.options.logger.error({ err }, "Circuit breaker failed to publish state");
+      });
+  }
+
+  // The counts the error rate is judged on: with a state store, those of every process plus
+  // what this one has not flushed yet.
+  private windowCounts(): StoredCounts {
+    if (!this.sharedCounts) return this.status.counts;
+    const totals = this.status.totals;
+    const counts = { ...this.sharedCounts };
+    for (const field of Object.keys(counts) as (keyof StoredCounts)[]) {
+      counts[field] += totals[field] - this.flushedTotals[field];
+    }
+    return counts;
+  }
+
+  private weight(category: keyof CategoryWeights): number {
+    return this.options.categoryWeights[category] ?? 1;
+  }
+
+  private isSlow(latency?: number): boolean {
+    const threshold = this.options.slowCallDurationThreshold;
+    return threshold !== false && latency !== undefined && latency >= threshold;
+  }
+
+  // Opens the circuit if the error rate or the slow-call rate is over its limit.
+  private evaluate() {
+    if (this.warmUp) return;
+
+    const stats = this.windowCounts();
+    const abandoned = this.options.countClientAborts ? 0 : stats.clientAborts;
+    const fires = stats.fires - stats.ignored - abandoned;
+    if (fires < this.options.volumeThreshold) return;
+    const failures =
+      stats.failures * this.weight("failure") + stats.rateLimited * this.weight("rateLimited");
+    const errorRate = (failures / fires) * 100;
+    const slowCallRate = (stats.slowCalls / fires) * 100;
+    if (errorRate > this.options.errorThresholdPercentage) {
+      this.open();
+    } else if (
+      this.options.slowCallDurationThreshold !== false &&
+      slowCallRate >= this.options.slowCallRateThreshold
+    ) {
+      this.options.logger.warn({ slowCallRate }, "Circuit breaker slow-call rate exceeded");
+      this.open();
+    }
+  }
+
+  protected async fail(err: Error, req: Request | undefined, latency: number) {
+    await this.status.increment("failures");
+    this.options.logger.warn({ err, latency }, "Circuit breaker failure");
+    this.notify("failure", { req, latency, reason: err });
+    if (this.warmUp) return;
+
+    if (this._state === "half-open") {
+      this.open();
+    } else {
+      this.rampUpOutcome(this.weight("failure"));
+      this.evaluate();
+    }
+  }
+
+  private rateLimit(err: Error, req: Request | undefined, latency: number) {
+    const weight = this.weight("rateLimited");
+    this.status.increment("rateLimited");
+    this.options.logger.warn({ err, latency }, "Circuit breaker call rate limited");
+    this.notify("rateLimited", { req, latency, reason: err });
+    if (this.warmUp) return;
+
+    if (this._state === "half-open") {
+      if (weight > 0) this.open();
+    } else {
+      this.rampUpOutcome(weight);
+      this.evaluate();
+    }
+  }
+
+  // Moves the recovery ramp on to `step`, or back to full traffic after the last one.
+  private rampTo(step: number) {
+    const rampUp = this.options.rampUp;
+    if (rampUp === false) return;
+    const steps = rampUp.steps ?? DEFAULT_RAMP_STEPS;
+    if (step >= steps.length) {
+      this.stopRampUp();
+      this.options.logger.info("Circuit breaker ramp-up complete");
+      return;
+    }
+    this.rampStep = step;
+    this.options.logger.info({ percentage: steps[step] }, "Circuit breaker ramping up");
+    this.rampTimeout = setTimeout(() => this.rampTo(step + 1), rampUp.duration / steps.length);
+  }
+
+  private scheduleHealthCheck() {
+    if (!this.healthCheck || this._state !== "open") return;
+    const run = this.healthCheckRun;
+    this.healthCheckTimeout = setTimeout(
+      () => this.checkHealth(run),
+      this.options.healthCheckInterval,
+    );
+  }
+
+  private stopHealthChecks() {
+    if (this.healthCheckTimeout) {
+      clearTimeout(this.healthCheckTimeout);
+    }
+    this.healthCheckTimeout = null;
+    this.healthCheckRun++;
+    this.healthCheckFailures = 0;
+  }
+
+  private async checkHealth(run: number) {
+    const check = this.healthCheck as HealthCheck;
+    // Run through a promise so a check that throws before returning one is caught as well
+    const healthy = await Promise.resolve()
+      .then(() => check())
+      .catch((err: Error) => {
+        this.options.logger.warn({ err }, "Circuit breaker health check threw");
+        return false;
+      });
+    // The circuit moved on while the check was running
+    if (run !== this.healthCheckRun) return;
+
+    if (healthy) {
+      this.options.logger.info("Circuit breaker health check passed");
+      if (this.options.healthCheckRecovery === "closed") {
+        this.close();
+      } else {
+        this.toHalfOpen("Health check passed");
+      }
+      return;
+    }
+
+    this.healthCheckFailures++;
+    this.options.logger.warn(
+      { failures: this.healthCheckFailures },
+      "Circuit breaker health check failed",
+    );
+    if (this.healthCheckFailures >= this.options.healthCheckFailureThreshold) {
+      this.healthCheckFailures = 0;
+      if (this.resetTimeout) {
+        clearTimeout(this.resetTimeout);
+      }
+      this.startTimer(this.nextResetDelay());
+    }
+    this.scheduleHealthCheck();
+  }
+
+  private stopRampUp() {
+    if (this.rampTimeout) {
+      clearTimeout(this.rampTimeout);
+    }
+    this.rampTimeout = null;
+    this.rampStep = null;
+  }
+
+  // Counts a call the ramp admitted, weighing on its error rate as much as `failureWeight`.
+  private rampUpOutcome(failureWeight: number) {
+    if (this.rampStep === null || !this.recordingRampCall) return;
+    this.rampCounts.settled++;
+    this.rampCounts.failures += failureWeight;
+
+    const { settled, failures } = this.rampCounts;
+    if (settled < this.options.volumeThreshold) return;
+    const errorRate = (failures / settled) * 100;
+    if (errorRate > this.options.errorThresholdPercentage) {
+      this.options.logger.warn({ errorRate }, "Circuit breaker failed while ramping up");
+      this.open();
+    }
+  }
+
+  // Lets a call through, or says why not. An admitted call holds a half-open trial slot and a
+  // capacity slot until it calls `release()`.
+  protected async admit(req?: Request): Promise<Admission> {
+    const logger = this.options.logger;
+    // A call turned away is fired too, but gets no bucket of its own in a "count" window
+    const rejected = (reason: string): Admission => {
+      this.status.increment("fires");
+      this.status.increment("rejects");
+      return { admitted: false, reason };
+    };
+
+    if (this._state === "open") {
+      logger.warn("Circuit is open request rejected");
+      this.notify("reject", { req, reason: "Circuit is open" });
+      if (!this.options.logOnly) {
+        return rejected("Circuit is open");
+      }
+    }
+
+    // While ramping back up after closing, only a share of requests gets through
+    const rampUpPercentage = this.rampUpPercentage;
+    if (rampUpPercentage !== null && Math.random() * 100 >= rampUpPercentage) {
+      logger.warn({ rampUpPercentage }, "Circuit is ramping up request rejected");
+      this.notify("reject", { req, reason: "Circuit is ramping up" });
+      if (!this.options.logOnly) {
+        // Not counted as fired, or turning most requests away would dilute the error rate
+        this.status.increment("rejects");
+        return { admitted: false, reason: "Circuit is ramping up" };
+      }
+    }
+
+    // Only a limited number of trial requests may probe a half-open circuit at once
+    let trial = false;
+    if (this._state === "half-open") {
+      if (this.halfOpenInFlight >= this.options.halfOpenMaxRequests) {
+        logger.warn("Circuit is half-open request rejected");
+        this.notify("reject", { req, reason: "Circuit is half-open" });
+        if (!this.options.logOnly) {
+          return rejected("Circuit is half-open");
+        }
+      } else {
+        trial = true;
+        this.halfOpenInFlight++;
+      }
+    }
+
+    let acquired = this.semaphore.tryAcquire() || (await this.semaphore.acquire());
+    if (!acquired) {
+      this.status.increment("semaphoreRejections");
+      logger.warn("Circuit is at capacity request rejected");
+      this.notify("reject", { req, reason: "Circuit is at capacity" });
+      if (!this.options.logOnly) {
+        if (trial) this.halfOpenInFlight--;
+        return rejected("Circuit is at capacity");
+      }
+    }
+
+    const release = () => {
+      if (trial) {
+        trial = false;
+        this.halfOpenInFlight--;
+      }
+      if (acquired) {
+        acquired = false;
+        this.semaphore.release();
+      }
+    };
+    const bucket = this.status.startCall();
+    const rampRun = this.rampStep === null ? null : this.rampRun;
+    const record = (count: () => void) => {
+      const previous = this.recordingRampCall;
+      this.recordingRampCall = rampRun === this.rampRun;
+      try {
+        this.status.recordIn(bucket, count);
+      } finally {
+        this.recordingRampCall = previous;
+      }
+    };
+    return { admitted: true, release, record };
+  }
+
+  // Records how an admitted call went: a failure if there is an `err`, a success otherwise.
+  protected settle(latency: number, err?: Error, req?: Request) {
+    this.settleAs(err ? "failure" : "success", latency, err, req);
+  }
+
+  // Records how an admitted call went, by category. `err` is the reason reported for failures
+  // and rate-limited calls.
+  protected settleAs(category: OutcomeCategory, latency: number, err?: Error, req?: Request) {
+    const logger = this.options.logger;
+    this.status.recordLatency(latency);
+    if (category === "ignored") {
+      this.status.increment("ignored");
+      this.notify("ignored", { req, latency });
+      logger.debug({ latency }, "Request ignored");
+      return;
+    }
+    if (this.isSlow(latency)) this.status.increment("slowCalls");
+
+    if (category === "failure") {
+      this.fail(err ?? new Error("Call failed"), req, latency);
+      return;
+    }
+    if (category === "rateLimited") {
+      this.rateLimit(err ?? new Error("Call rate limited"), req, latency);
+      return;
+    }
+    this.success(req, latency)
+      .then(() => {
+        logger.info({ latency }, "Request succeeded");
+      })
+      .catch((err: Error) => {
+        logger.error({ err, latency }, "Error in handling success");
+      });
+  }
+
+  // Records an admitted call that ran past the `timeout`.
+  protected recordTimeout(err: Error, latency: number, req?: Request) {
+    this.status.increment("timeouts", latency);
+    if (this.isSlow(latency)) this.status.increment("slowCalls");
+    this.notify("timeout", { req, latency, reason: err });
+    this.fail(err, req, latency);
+    this.options.logger.warn({ latency }, "Request timed out");
+  }
+
+  public async success(req?: Request, latency?: number) {
+    this.status.increment("successes");
+    this.notify("success", { req, latency });
+    if (this._state === "half-open" && this.isSlow(latency)) {
+      // A trial that only just made it is no sign of recovery
+      this.open();
+    } else if (this._state === "half-open") {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.options.halfOpenSuccessThreshold) {
+        this.close();
+      }
+    } else {
+      this.rampUpOutcome(0);
+      if (this.isSlow(latency)) this.evaluate();
+    }
+  }
+
+  public open() {
+    if (this._state !== "open") {
+      this.toOpen(this.nextResetDelay());
+      this.publishState("open");
+    }
+  }
+
+  // Opens the circuit and holds it open, with no half-open trials, health checks or closes
+  // from other processes, until `release()` or `close()`. For on-call taking a dependency
+  // out of service.
+  public forceOpen() {
+    this._forcedOpen = true;
+    if (this._state !== "open") {
+      this.open();
+      return;
+    }
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    this.stopHealthChecks();
+  }
+
+  // Lets a circuit held open by `forceOpen()` recover: it goes half-open, so trial requests can
+  // confirm the dependency is back.
+  public release() {
+    if (!this._forcedOpen) return;
+    this._forcedOpen = false;
+    if (this._state === "open") {
+      this.toHalfOpen("Released");
+    }
+  }
+
+  public close() {
+    this._forcedOpen = false;
+    if (this._state !== "closed") {
+      this.toClosed();
+      this.publishState("closed");
+    }
+  }
+
+  private toOpen(resetAfter: number) {
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    this._state = "open";
+    this.stopRampUp();
+    this.stopHealthChecks();
+    this.status.open();
+    if (!this._forcedOpen) {
+      this.startTimer(resetAfter);
+      this.scheduleHealthCheck();
+    }
+    this.options.logger.warn(
+      { attempt: this.openAttempts, nextAttemptAt: this.nextAttemptAt },
+      "Circuit breaker opened",
+    );
+    this.notify("open");
+  }
+
+  private toHalfOpen(reason: string) {
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    this._state = "half-open";
+    this.stopHealthChecks();
+    this.halfOpenSuccesses = 0;
+    this.notify("halfOpen", { reason });
+  }
+
+  private toClosed() {
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    this._state = "closed";
+    this.stopHealthChecks();
+    this.openAttempts = 0;
+    this.options.logger.info("Circuit breaker closed");
+    this.status.close();
+    this.rampCounts = { settled: 0, failures: 0 };
+    this.rampRun++;
+    this.rampTo(0);
+    this.notify("close");
+  }
+
+  // Stops guarding requests: the middleware lets everything through untracked until `enable()`.
+  public disable() {
+    this.options.enabled = false;
+  }
+
+  public enable() {
+    this.options.enabled = true;
+  }
+
+  // Empties the rolling stats, e.g. once a known-bad period is over.
+  public reset() {
+    this.status.reset();
+  }
+
+  // A versioned snapshot of the state, reset timer and stats, for `restore()` or the `snapshot`
+  // option to pick up after a restart. `JSON.stringify(breaker)` produces the same.
+  public toJSON(): CircuitBreakerSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      name: this.options.name,
+      state: this._state === "shutdown" ? "closed" : this._state,
+      takenAt: Date.now(),
+      resetRemaining: this._state === "open" ? this.resetRemaining() : null,
+      status: this.status.snapshot(),
+    };
+  }
+
+  // Rehydrates the state, reset timer and stats from a `toJSON()` snapshot, accounting for the
+  // time that has passed since it was taken. Throws an InvalidSnapshotError if the snapshot is
+  // malformed, from another version or for another circuit.
+  public restore(snapshot: unknown) {
+    const parsed = parseSnapshot(snapshot);
+    if (parsed.name !== this.options.name) {
+      throw new InvalidSnapshotError(`Snapshot is for circuit ${parsed.name}`);
+    }
+    const elapsed = Math.max(0, Date.now() - parsed.takenAt);
+    this.status.restore(parsed.status, elapsed);
+    this.flushedTotals = this.status.totals;
+
+    const resetRemaining = (parsed.resetRemaining ?? 0) - elapsed;
+    if (parsed.state === "open" && resetRemaining > 0) {
+      this.toOpen(resetRemaining);
+    } else if (parsed.state !== "closed") {
+      this.status.open();
+      this.toHalfOpen("Restored from snapshot");
+    } else if (this._state !== "closed") {
+      this.toClosed();
+    }
+    this.options.logger.info({ state: this._state, elapsed }, "Circuit breaker restored");
+  }
+
+  // Runs `fn` through the breaker. Rejects with a CircuitOpenError without calling it when the
+  // circuit rejects the call, and with a CircuitTimeoutError once it runs past the `timeout`,
+  // at which point the `signal` it was given is aborted too.
+  public async execute<T>(fn: (this: CallContext, signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const context: CallContext = { signal: controller.signal };
+    if (this.options.enabled === false) {
+      return fn.call(context, controller.signal);
+    }
+
+    const admission = await this.admit();
+    if (!admission.admitted) {
+      throw new CircuitOpenError(this.options.name, this._state, admission.reason);
+    }
+
+    const startedAt = Date.now();
+    return new Promise<T>((resolve, reject) => {
+      let timeoutId: NodeJS.Timeout | null = null;
+      // Whichever of the call and its timeout comes first decides the outcome
+      let settled = false;
+      const finish = () => {
+        settled = true;
+        if (timeoutId) clearTimeout(timeoutId);
+        return Date.now() - startedAt;
+      };
+
+      const timeout = this.options.timeout;
+      if (timeout !== false) {
+        timeoutId = setTimeout(() => {
+          const err = new CircuitTimeoutError(this.options.name, timeout);
+          const latency = finish();
+          admission.record(() => this.recordTimeout(err, latency));
+          controller.abort(err);
+          reject(err);
+        }, timeout);
+      }
+
+      Promise.resolve()
+        .then(() => fn.call(context, controller.signal))
+        .then(
+          result => {
+            // A timed-out call holds its slot until it actually returns, as it is still running
+            admission.release();
+            if (settled) return;
+            const latency = finish();
+            admission.record(() => this.settle(latency));
+            resolve(result);
+          },
+          (err: unknown) => {
+            admission.release();
+            if (settled) return;
+            const latency = finish();
+            let reason: Error | undefined;
+            try {
+              reason = this.options.isError(err) ? toError(err) : undefined;
+            } catch (classifierErr) {
+              // Otherwise the call would never settle, and its caller wait forever
+              this.options.logger.error({ err: classifierErr }, "Circuit breaker isError threw");
+              reason = toError(classifierErr);
+            }
+            admission.record(() => this.settle(latency, reason));
+            reject(err);
+          },
+        );
+    });
+  }
+
+  // Guards `fn` with this breaker: the returned function takes the same arguments and runs
+  // every call through `execute()`. `fn` can read the call's AbortSignal from `this.signal`.
+  public wrap<WA extends unknown[], WR>(
+    fn: (this: CallContext, ...args: WA) => Promise<WR>,
+  ): (...args: WA) => Promise<WR> {
+    return (...args: WA) =>
+      this.execute(function (this: CallContext) {
+        return fn.apply(this, args);
+      });
+  }
+
+  // A breaker guarding `fn`, to be called through `fire()`, as in Opossum.
+  public static wrap<WA extends unknown[], WR>(
+    fn: (this: CallContext, ...args: WA) => Promise<WR>,
+    options: CircuitBreakerCoreOptions = {},
+  ): CircuitBreaker<WA, WR> {
+    const breaker = new CircuitBreaker<WA, WR>(fn.name ? { name: fn.name, ...options } : options);
+    breaker.action = fn;
+    return breaker;
+  }
+
+  // Calls the function this breaker was created with by `CircuitBreaker.wrap()`.
+  public fire(...args: A): Promise<R> {
+    const action = this.action;
+    if (!action) {
+      return Promise.reject(new Error("Only breakers created with CircuitBreaker.wrap() can fire"));
+    }
+    return this.execute(function (this: CallContext) {
+      return action.apply(this, args);
+    });
+  }
+
+  public shutdown() {
+    this._state = "shutdown";
+    this.stopRampUp();
+    this.stopHealthChecks();
+    if (this.resetTimeout) {
+      clearTimeout(this.resetTimeout);
+    }
+    if (this.warmupTimeout) {
+      clearTimeout(this.warmupTimeout);
+    }
+    if (this.syncTimeout) {
+      clearTimeout(this.syncTimeout);
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+    }
+    this.status.shutdown();
+    this.semaphore.shutdown();
+    this.notify("shutdown");
+  }
+}
+
+export default CircuitBreaker;
+export {
+  Admission,
+  CallContext,
+  CircuitBreaker,
+  CircuitBreakerBaseOptions,
+  CircuitBreakerCoreOptions,
+  CategoryWeights,
+  CircuitState,
+  CircuitBreakerEvent,
+  CircuitBreakerListener,
+  CircuitBreakerEvents,
+  OutcomeCategory,
+  RampUpOptions,
+};
@@ -1,5 +1,8 @@
 import { Request, Response } from "express";
+import { exponentialBackoff } from "./backoff";
 import CircuitBreakerMiddleware from "./circuit";
+import { CircuitOpenError, InvalidSnapshotError } from "./errors";
+import { MemoryStateStore } from "./store";
 
 describe("CircuitBreakerMiddleware Tests", () => {
   let circuitBreaker: CircuitBreakerMiddleware;
@@ -43,6 +46,7 @@ describe("CircuitBreakerMiddleware Tests", () => {
       return res as Response;
     });
     res.send = jest.fn().mockReturnValue(res) as unknown as Response["send"];
+    res.setHeader = jest.fn() as unknown as Response["setHeader"];
     res.on = jest.fn((event: string, handler: (...args: any[]) => void) => {
       if (event === "finish") {
         if (preHandler) {
@@ -54,6 +58,16 @@ describe("CircuitBreakerMiddleware Tests", () => {
     return res as Response;
   };
 
+  // A response that only finishes when the test says so
+  const pendingResponse = () => {
+    const res = mockResponse();
+    const handlers: Array<() => void> = [];
+    res.on = jest.fn((event: string, handler: () => void) => {
+      if (event === "finish") handlers.push(handler);
+    }) as unknown as Response["on"];
+    return { res, finish: () => handlers.forEach(handler => handler()) };
+  };
+
   // State Transitions
   describe("State Transitions", () => {
     it("should transition from closed to open when error threshold exceeded", async () => {
@@ -197,6 +211,504 @@ describe("CircuitBreakerMiddleware Tests", () => {
     });
   });
 
+  // Half-open admission
+  describe("Half-open Admission", () => {
+    it("should only let halfOpenMaxRequests trial requests through at once", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, halfOpenMaxRequests: 2 });
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      const next = jest.fn();
+      const trials = [pendingResponse(), pendingResponse()];
+      for (const { res } of trials) {
+        await circuitBreaker.middleware(mockRequest(), res, next);
+      }
+      const extra = mockResponse();
+      await circuitBreaker.middleware(mockRequest(), extra, next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+      expect(extra.status).toHaveBeenCalledWith(503);
+      expect(circuitBreaker["state"]).toBe("half-open");
+    });
+
+    it("should admit a new trial once an earlier one settles", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, halfOpenSuccessThreshold: 2 });
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      const next = jest.fn();
+      const first = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), first.res, next);
+      first.finish();
+
+      await circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only close after halfOpenSuccessThreshold successful trials", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, halfOpenSuccessThreshold: 3 });
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      for (let i = 0; i < 2; i++) {
+        const { res, finish } = pendingResponse();
+        await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+        finish();
+        await Promise.resolve();
+      }
+      expect(circuitBreaker["state"]).toBe("half-open");
+
+      const { res, finish } = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      finish();
+      await Promise.resolve();
+
+      expect(circuitBreaker["state"]).toBe("closed");
+    });
+  });
+
+  // Capacity
+  describe("Reset Backoff", () => {
+    const trial = async (status: number) => {
+      const { res, finish } = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      res.status(status);
+      finish();
+      await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        resetBackoff: exponentialBackoff(1000, 3000),
+      });
+    });
+
+    it("should wait longer after every failed half-open trial, up to the cap", async () => {
+      circuitBreaker.open();
+      const waits: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        waits.push((circuitBreaker.nextAttemptAt as number) - Date.now());
+        jest.advanceTimersByTime(waits[i]);
+        expect(circuitBreaker.state).toBe("half-open");
+        await trial(500);
+        expect(circuitBreaker.state).toBe("open");
+      }
+
+      expect(waits).toEqual([1000, 2000, 3000, 3000]);
+    });
+
+    it("should start over once the circuit closes", async () => {
+      circuitBreaker.open();
+      jest.advanceTimersByTime(1000);
+      await trial(500);
+      jest.advanceTimersByTime(2000);
+      await trial(200);
+      expect(circuitBreaker.state).toBe("closed");
+
+      circuitBreaker.open();
+
+      expect((circuitBreaker.nextAttemptAt as number) - Date.now()).toBe(1000);
+    });
+
+    it("should report the next attempt time in open events", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("open", listener);
+
+      circuitBreaker.open();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ nextAttemptAt: Date.now() + 1000 }),
+      );
+      expect(circuitBreaker.nextAttemptAt).toBe(Date.now() + 1000);
+    });
+
+    it("should have no next attempt time unless open", () => {
+      expect(circuitBreaker.nextAttemptAt).toBeNull();
+    });
+
+    it("should wait resetTimeout every time without a policy", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware(options);
+
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout);
+      await trial(500);
+
+      expect(circuitBreaker.nextAttemptAt).toBe(Date.now() + options.resetTimeout);
+    });
+  });
+
+  describe("Ramp-up", () => {
+    const request = async (status = 200) => {
+      const { res, finish } = pendingResponse();
+      const next = jest.fn();
+      await circuitBreaker.middleware(mockRequest(), res, next);
+      res.status(status);
+      finish();
+      await Promise.resolve();
+      return next.mock.calls.length > 0;
+    };
+
+    beforeEach(() => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        volumeThreshold: 2,
+        rampUp: { duration: 3000, steps: [10, 50] },
+      });
+      circuitBreaker.open();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should admit a growing share of requests after closing", async () => {
+      const random = jest.spyOn(Math, "random").mockReturnValue(0.3);
+      circuitBreaker.close();
+
+      expect(circuitBreaker.stats.rampUpPercentage).toBe(10);
+      expect(await request()).toBe(false);
+      expect(circuitBreaker.stats.fallbacks).toBe(1);
+
+      jest.advanceTimersByTime(1500);
+      expect(circuitBreaker.rampUpPercentage).toBe(50);
+      expect(await request()).toBe(true);
+
+      random.mockReturnValue(0.99);
+      jest.advanceTimersByTime(1500);
+      expect(circuitBreaker.rampUpPercentage).toBeNull();
+      expect(circuitBreaker.stats.rampUpPercentage).toBeUndefined();
+      expect(await request()).toBe(true);
+    });
+
+    it("should re-open when the admitted requests fail", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      circuitBreaker.close();
+
+      await request(200);
+      await request(500);
+      expect(circuitBreaker.state).toBe("closed");
+      await request(500);
+
+      expect(circuitBreaker.state).toBe("open");
+      expect(circuitBreaker.rampUpPercentage).toBeNull();
+    });
+
+    it("should only judge the ramp on the requests it admitted", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      circuitBreaker.close();
+      for (let i = 0; i < 3; i++) await request(200);
+      const early = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), early.res, jest.fn());
+      circuitBreaker.open();
+      circuitBreaker.close();
+
+      early.res.status(500);
+      early.finish();
+      await Promise.resolve();
+      await request(500);
+
+      expect(circuitBreaker.state).toBe("closed");
+    });
+
+    it("should not count the requests the ramp turns away as fired", async () => {
+      jest.spyOn(Math, "random").mockReturnValue(0.99);
+      circuitBreaker.close();
+
+      expect(await request()).toBe(false);
+
+      expect(circuitBreaker.stats).toEqual(expect.objectContaining({ fires: 0, fallbacks: 1 }));
+    });
+
+    it("should show the phase in close events", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("close", listener);
+
+      circuitBreaker.close();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ stats: expect.objectContaining({ rampUpPercentage: 10 }) }),
+      );
+    });
+
+    it("should go straight to full traffic without a ramp", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware(options);
+      circuitBreaker.open();
+
+      circuitBreaker.close();
+
+      expect(circuitBreaker.rampUpPercentage).toBeNull();
+      expect(await request()).toBe(true);
+    });
+  });
+
+  describe("Health Checks", () => {
+    let healthy: jest.Mock<Promise<boolean>, []>;
+
+    const createBreaker = (overrides = {}) => {
+      circuitBreaker.shutdown();
+      healthy = jest.fn(async () => false);
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        healthCheck: healthy,
+        healthCheckInterval: 1000,
+        ...overrides,
+      });
+    };
+
+    beforeEach(() => createBreaker());
+
+    it("should only run while the circuit is open", async () => {
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(healthy).not.toHaveBeenCalled();
+
+      circuitBreaker.open();
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(healthy).toHaveBeenCalledTimes(3);
+    });
+
+    it("should move to half-open early once a check passes", async () => {
+      circuitBreaker.open();
+      healthy.mockResolvedValue(true);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(circuitBreaker.state).toBe("half-open");
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(healthy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep checking when a check throws before returning a promise", async () => {
+      const check = jest.fn(() => {
+        throw new Error("Not configured");
+      });
+      createBreaker({ healthCheck: check });
+      circuitBreaker.open();
+
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(check).toHaveBeenCalledTimes(3);
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should close straight away when configured to", async () => {
+      createBreaker({ healthCheckRecovery: "closed" });
+      circuitBreaker.open();
+      healthy.mockResolvedValue(true);
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(circuitBreaker.state).toBe("closed");
+    });
+
+    it("should extend the open period after repeated failures", async () => {
+      createBreaker({ healthCheckFailureThreshold: 2 });
+      circuitBreaker.open();
+
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(circuitBreaker.nextAttemptAt).toBe(Date.now() + options.resetTimeout);
+      await jest.advanceTimersByTimeAsync(options.resetTimeout - 2000);
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should treat a throwing check as a failure", async () => {
+      circuitBreaker.open();
+      healthy.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should ignore a check that settles after the circuit moved on", async () => {
+      let pass: (value: boolean) => void = () => undefined;
+      healthy.mockReturnValue(new Promise<boolean>(resolve => (pass = resolve)));
+      circuitBreaker.open();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      circuitBreaker.close();
+      circuitBreaker.open();
+      pass(true);
+      await Promise.resolve();
+
+      expect(circuitBreaker.state).toBe("open");
+    });
+  });
+
+  describe("Capacity", () => {
+    it("should reject requests beyond capacity without counting them as failures", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, capacity: 1 });
+      const listener = jest.fn();
+      circuitBreaker.on("reject", listener);
+      const next = jest.fn();
+
+      await circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+      const extra = mockResponse();
+      await circuitBreaker.middleware(mockRequest(), extra, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(extra.status).toHaveBeenCalledWith(503);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: "Circuit is at capacity" }),
+      );
+      expect(circuitBreaker["status"].stats.semaphoreRejections).toBe(1);
+      expect(circuitBreaker["status"].stats.failures).toBe(0);
+      expect(circuitBreaker["state"]).toBe("closed");
+    });
+
+    it("should free a slot when a request finishes", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, capacity: 1 });
+      const next = jest.fn();
+
+      const first = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), first.res, next);
+      first.finish();
+      await circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should hold a timed-out request's slot until its route finishes", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        capacity: 1,
+        timeout: 100,
+        volumeThreshold: 5,
+      });
+      const next = jest.fn();
+
+      const slow = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), slow.res, next);
+      jest.advanceTimersByTime(100);
+      await circuitBreaker.middleware(mockRequest(), mockResponse(), next);
+
+      expect(circuitBreaker["status"].stats.timeouts).toBe(1);
+      expect(circuitBreaker["status"].stats.semaphoreRejections).toBe(1);
+
+      slow.finish();
+      await circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should queue requests up to maxQueueSize until a slot frees up", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        capacity: 1,
+        maxQueueSize: 1,
+        queueTimeout: 500,
+      });
+      const next = jest.fn();
+
+      const first = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), first.res, next);
+      const queued = circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      first.finish();
+      await queued;
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject queued requests after queueTimeout", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        capacity: 1,
+        maxQueueSize: 1,
+        queueTimeout: 500,
+      });
+      const next = jest.fn();
+
+      await circuitBreaker.middleware(mockRequest(), pendingResponse().res, next);
+      const res = mockResponse();
+      const queued = circuitBreaker.middleware(mockRequest(), res, next);
+      jest.advanceTimersByTime(500);
+      await queued;
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(circuitBreaker["status"].stats.semaphoreRejections).toBe(1);
+    });
+  });
+
+  // Fallbacks
+  describe("Fallbacks", () => {
+    it("should call the fallback instead of sending a 503 when the circuit is open", async () => {
+      circuitBreaker.shutdown();
+      const fallback = jest.fn((req: Request, res: Response) => {
+        res.status(200).send("Degraded");
+      });
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, fallback });
+      circuitBreaker.open();
+      const req = mockRequest();
+      const res = mockResponse();
+      const next = jest.fn();
+
+      await circuitBreaker.middleware(req, res, next);
+
+      expect(fallback).toHaveBeenCalledWith(
+        req,
+        res,
+        next,
+        expect.objectContaining({ state: "open", reason: "Circuit is open" }),
+      );
+      expect(res.send).toHaveBeenCalledWith("Degraded");
+      expect(res.status).not.toHaveBeenCalledWith(503);
+      expect(circuitBreaker["status"].stats.fallbacks).toBe(1);
+    });
+
+    it("should pass a CircuitOpenError the fallback can forward to next", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        name: "upstream",
+        fallback: (req, res, next, context) => next(context.error),
+      });
+      circuitBreaker.open();
+      const next = jest.fn();
+
+      await circuitBreaker.middleware(mockRequest(), mockResponse(), next);
+
+      const err = next.mock.calls[0][0];
+      expect(err).toBeInstanceOf(CircuitOpenError);
+      expect(err).toMatchObject({ circuit: "upstream", state: "open", status: 503 });
+    });
+
+    it("should count fallback errors separately and pass them to next", async () => {
+      circuitBreaker.shutdown();
+      const failure = new Error("fallback broke");
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        fallback: async () => {
+          throw failure;
+        },
+      });
+      circuitBreaker.open();
+      const next = jest.fn();
+
+      await circuitBreaker.middleware(mockRequest(), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(failure);
+      expect(circuitBreaker["status"].stats.fallbackFailures).toBe(1);
+      expect(circuitBreaker["status"].stats.failures).toBe(0);
+    });
+  });
+
   // Timeouts and Delays
   describe("Timeouts and Delays", () => {
     it("should handle request that completes just before timeout without tripping", async () => {
@@ -264,6 +776,136 @@ describe("CircuitBreakerMiddleware Tests", () => {
     });
   });
 
+  describe("Slow Calls", () => {
+    const slowRequest = async (duration: number, status = 200) => {
+      const { res, finish } = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      jest.advanceTimersByTime(duration);
+      res.status(status);
+      finish();
+      await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        volumeThreshold: 4,
+        slowCallDurationThreshold: 1000,
+        slowCallRateThreshold: 50,
+      });
+    });
+
+    it("should count requests at or over the duration threshold as slow calls", async () => {
+      await slowRequest(999);
+      await slowRequest(1000);
+      await slowRequest(2000, 500);
+
+      expect(circuitBreaker.stats.slowCalls).toBe(2);
+    });
+
+    it("should open when the slow-call rate reaches its threshold", async () => {
+      await slowRequest(10);
+      await slowRequest(10);
+      await slowRequest(1500);
+      expect(circuitBreaker.state).toBe("closed");
+
+      await slowRequest(1500);
+
+      expect(circuitBreaker.stats.failures).toBe(0);
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should not track slow calls unless a duration threshold is set", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, slowCallRateThreshold: 0 });
+
+      await slowRequest(5000);
+
+      expect(circuitBreaker.stats.slowCalls).toBe(0);
+      expect(circuitBreaker.state).toBe("closed");
+    });
+
+    it("should re-open on a slow half-open trial", async () => {
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      await slowRequest(1500);
+
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should count a timed-out request once, ignoring its late response", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, volumeThreshold: 10 });
+
+      await slowRequest(options.timeout + 1, 500);
+
+      const stats = circuitBreaker.stats;
+      expect(stats.timeouts).toBe(1);
+      expect(stats.failures).toBe(1);
+      expect(stats.successes).toBe(0);
+    });
+  });
+
+  describe("Count-based Window", () => {
+    const request = async (status: number) => {
+      const { res, finish } = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      res.status(status);
+      finish();
+      await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        slidingWindowType: "count",
+        slidingWindowSize: 4,
+        volumeThreshold: 4,
+      });
+    });
+
+    it("should judge the last N calls however long ago they were made", async () => {
+      await request(500);
+      await request(500);
+      jest.advanceTimersByTime(options.rollingCountTimeout * 10);
+      await request(200);
+      expect(circuitBreaker.state).toBe("closed");
+
+      await request(500);
+
+      expect(circuitBreaker.stats.fires).toBe(4);
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should forget failures once enough newer calls come in", async () => {
+      await request(500);
+      await request(500);
+      for (let i = 0; i < 4; i++) await request(200);
+
+      await request(500);
+
+      expect(circuitBreaker.stats.failures).toBe(1);
+      expect(circuitBreaker.state).toBe("closed");
+    });
+
+    it("should count a slow call's outcome with the call, not the newest one", async () => {
+      const slow = pendingResponse();
+      await circuitBreaker.middleware(mockRequest(), slow.res, jest.fn());
+      for (let i = 0; i < 3; i++) await request(200);
+      slow.res.status(500);
+      slow.finish();
+      await Promise.resolve();
+      expect(circuitBreaker.stats.failures).toBe(1);
+
+      await request(200);
+
+      expect(circuitBreaker.stats).toEqual(expect.objectContaining({ fires: 4, failures: 0 }));
+    });
+  });
+
   describe("Fail", () => {
     it("should not open the circuit if failures do not exceed volume threshold", async () => {
       circuitBreaker.shutdown();
@@ -442,6 +1084,464 @@ describe("CircuitBreakerMiddleware Tests", () => {
     });
   });
 
+  // Events
+  describe("Events", () => {
+    it("should emit open with a stats snapshot when the circuit opens", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("open", listener);
+
+      circuitBreaker.open();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: expect.any(String),
+          state: "open",
+          stats: expect.objectContaining({ fires: 0 }),
+        }),
+      );
+    });
+
+    it("should emit halfOpen when the reset timeout elapses", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("halfOpen", listener);
+
+      circuitBreaker.open();
+      expect(listener).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ state: "half-open" }));
+    });
+
+    it("should emit close when a half-open trial succeeds", async () => {
+      const success = jest.fn();
+      const close = jest.fn();
+      circuitBreaker.on("success", success);
+      circuitBreaker.on("close", close);
+      circuitBreaker.open();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      const req = mockRequest();
+      const res = mockResponse();
+      const next = jest.fn(() => res.status(200).send("OK"));
+
+      await circuitBreaker.middleware(req, res, next);
+      jest.advanceTimersByTime(1);
+
+      expect(success).toHaveBeenCalledWith(
+        expect.objectContaining({ req, latency: expect.any(Number) }),
+      );
+      expect(close).toHaveBeenCalledWith(expect.objectContaining({ state: "closed" }));
+    });
+
+    it("should emit failure with the request and reason on an error response", async () => {
+      const listener = jest.fn();
+      circuitBreaker.on("failure", listener);
+
+      const req = mockRequest();
+      const res = mockResponse();
+      const next = jest.fn(() => res.status(500).send("Error"));
+
+      await circuitBreaker.middleware(req, res, next);
+      jest.advanceTimersByTime(1);
+      await Promise.resolve();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          req,
+          latency: expect.any(Number),
+          reason: expect.objectContaining({ message: "Request failed" }),
+          stats: expect.objectContaining({ failures: 1 }),
+        }),
+      );
+    });
+
+    it("should emit reject when the circuit is open", async () => {
+      const listener = jest.fn();
+      circuitBreaker.on("reject", listener);
+      circuitBreaker.open();
+
+      const req = mockRequest();
+      const res = mockResponse();
+
+      await circuitBreaker.middleware(req, res, jest.fn());
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ req, state: "open", reason: "Circuit is open" }),
+      );
+    });
+
+    it("should emit timeout before the resulting failure", async () => {
+      const events: string[] = [];
+      circuitBreaker.on("timeout", () => events.push("timeout"));
+      circuitBreaker.on("failure", () => events.push("failure"));
+
+      const req = mockRequest();
+      const res = mockResponse(() => jest.advanceTimersByTime(options.timeout + 10));
+
+      await circuitBreaker.middleware(req, res, jest.fn());
+      jest.advanceTimersByTime(1);
+
+      expect(events.slice(0, 2)).toEqual(["timeout", "failure"]);
+    });
+
+    it("should emit shutdown", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("shutdown", listener);
+
+      circuitBreaker.shutdown();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ state: "shutdown" }));
+    });
+
+    it("should forward snapshot events on every bucket rotation", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("snapshot", listener);
+
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ fires: 0 }));
+    });
+
+    it("should stop forwarding snapshot events once nobody listens", () => {
+      const listener = jest.fn();
+      circuitBreaker.on("snapshot", listener);
+      circuitBreaker.off("snapshot", listener);
+      const status = circuitBreaker["status"];
+
+      expect(status.listenerCount("snapshot")).toBe(0);
+    });
+  });
+
+  // Shared state
+  describe("State Store", () => {
+    let store: MemoryStateStore;
+    let peer: CircuitBreakerMiddleware;
+
+    beforeEach(() => {
+      store = new MemoryStateStore();
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        name: "shared",
+        stateStore: store,
+      });
+      peer = new CircuitBreakerMiddleware({ ...options, name: "shared", stateStore: store });
+    });
+
+    afterEach(() => {
+      peer.shutdown();
+    });
+
+    it("should publish open decisions to the store", async () => {
+      circuitBreaker.open();
+      await jest.advanceTimersByTimeAsync(0);
+
+      await expect(store.getState("shared")).resolves.toMatchObject({
+        state: "open",
+        version: 1,
+      });
+    });
+
+    it("should pick up another process's decision on the next sync", async () => {
+      circuitBreaker.open();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(peer.state).toBe("open");
+
+      circuitBreaker.close();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(peer.state).toBe("closed");
+    });
+
+    it("should only wait out what is left of the reset timeout", async () => {
+      circuitBreaker.open();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(peer.state).toBe("open");
+
+      await jest.advanceTimersByTimeAsync(options.resetTimeout - 1000);
+
+      expect(peer.state).toBe("half-open");
+    });
+
+    it("should judge the error rate on counts from every process", async () => {
+      circuitBreaker.shutdown();
+      peer.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        name: "shared",
+        stateStore: store,
+        volumeThreshold: 4,
+      });
+      peer = new CircuitBreakerMiddleware({
+        ...options,
+        name: "shared",
+        stateStore: store,
+        volumeThreshold: 4,
+      });
+      const failing = () => {
+        const res = mockResponse();
+        return { res, next: jest.fn(() => res.status(500).send("Error")) };
+      };
+
+      for (let i = 0; i < 3; i++) {
+        const { res, next } = failing();
+        await peer.middleware(mockRequest(), res, next);
+        await jest.advanceTimersByTimeAsync(1);
+      }
+      expect(peer.state).toBe("closed");
+      // One sync for the peer to publish its counts, another for us to pick them up
+      await jest.advanceTimersByTimeAsync(2000);
+
+      const { res, next } = failing();
+      await circuitBreaker.middleware(mockRequest(), res, next);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(circuitBreaker.state).toBe("open");
+    });
+  });
+
+  // Snapshots
+  describe("Snapshots", () => {
+    const restart = (snapshot: unknown) => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, name: "users" });
+      circuitBreaker.restore(snapshot);
+    };
+
+    beforeEach(() => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, name: "users" });
+    });
+
+    it("should produce a versioned snapshot through JSON.stringify", () => {
+      circuitBreaker.open();
+
+      const snapshot = JSON.parse(JSON.stringify(circuitBreaker));
+
+      expect(snapshot).toMatchObject({
+        version: 2,
+        name: "users",
+        state: "open",
+        resetRemaining: options.resetTimeout,
+      });
+    });
+
+    it("should stay open for only what was left of the reset timeout", () => {
+      circuitBreaker.open();
+      jest.advanceTimersByTime(10000);
+      const snapshot = circuitBreaker.toJSON();
+      jest.advanceTimersByTime(5000);
+
+      restart(snapshot);
+
+      expect(circuitBreaker.state).toBe("open");
+      jest.advanceTimersByTime(options.resetTimeout - 15000 - 1);
+      expect(circuitBreaker.state).toBe("open");
+      jest.advanceTimersByTime(1);
+      expect(circuitBreaker.state).toBe("half-open");
+    });
+
+    it("should come back half-open if the reset timeout ran out while down", () => {
+      circuitBreaker.open();
+      const snapshot = circuitBreaker.toJSON();
+      jest.advanceTimersByTime(options.resetTimeout + 1);
+
+      restart(snapshot);
+
+      expect(circuitBreaker.state).toBe("half-open");
+    });
+
+    it("should restore the rolling stats", async () => {
+      const res = mockResponse();
+      await circuitBreaker.middleware(mockRequest(), res, () => res.status(500).send("Error"));
+      jest.advanceTimersByTime(1);
+
+      restart(circuitBreaker.toJSON());
+
+      expect(circuitBreaker.stats.failures).toBe(1);
+      expect(circuitBreaker.totals.fires).toBe(1);
+    });
+
+    it("should restore from the snapshot option", () => {
+      circuitBreaker.open();
+      const snapshot = circuitBreaker.toJSON();
+      circuitBreaker.shutdown();
+
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, name: "users", snapshot });
+
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should refuse snapshots of another circuit", () => {
+      const snapshot = { ...circuitBreaker.toJSON(), name: "orders" };
+
+      expect(() => circuitBreaker.restore(snapshot)).toThrow(InvalidSnapshotError);
+      expect(circuitBreaker.state).toBe("closed");
+    });
+  });
+
+  // Error Handler
+  describe("Error Handler", () => {
+    class TimeoutError extends Error {}
+
+    // Runs a request through the breaker and a route that fails with `err`, as Express would
+    const failRoute = async (err: unknown, res = mockResponse()) => {
+      const req = mockRequest();
+      await circuitBreaker.middleware(req, res, jest.fn());
+      res.status(500);
+      circuitBreaker.errorHandler(err, req, res, jest.fn());
+      await new Promise(setImmediate);
+    };
+
+    it("should pass the error on to the next error handler", () => {
+      const err = new Error("boom");
+      const next = jest.fn();
+
+      circuitBreaker.errorHandler(err, mockRequest(), mockResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(err);
+    });
+
+    it("should hand isError the route's error", async () => {
+      jest.useRealTimers();
+      const isError = jest.fn((res: Response, err?: unknown) => err instanceof TimeoutError);
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, isError });
+
+      await failRoute(new Error("Invalid input"));
+      await failRoute(new TimeoutError("Upstream timed out"));
+
+      expect(isError).toHaveBeenNthCalledWith(1, expect.anything(), expect.any(Error));
+      expect(circuitBreaker.stats).toEqual(expect.objectContaining({ successes: 1, failures: 1 }));
+    });
+
+    it("should report the route's error as the failure reason", async () => {
+      jest.useRealTimers();
+      const failure = jest.fn();
+      circuitBreaker.on("failure", failure);
+      const err = new TimeoutError("Upstream timed out");
+
+      await failRoute(err);
+
+      expect(failure).toHaveBeenCalledWith(expect.objectContaining({ reason: err }));
+    });
+
+    it("should wrap errors that are not Error instances", async () => {
+      jest.useRealTimers();
+      const failure = jest.fn();
+      circuitBreaker.on("failure", failure);
+
+      await failRoute("ECONNREFUSED");
+
+      expect(failure).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: new Error("ECONNREFUSED") }),
+      );
+    });
+
+    it("should fall back to a generic reason without an error", async () => {
+      jest.useRealTimers();
+      const failure = jest.fn();
+      circuitBreaker.on("failure", failure);
+      const res = mockResponse(() => res.status(500));
+
+      await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      await new Promise(setImmediate);
+
+      expect(failure).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: new Error("Request failed") }),
+      );
+    });
+  });
+
+  // Outcome Categories
+  describe("Outcome Categories", () => {
+    // Classifies upstream throttling and missing records the way an API gateway might
+    const classify = (res: Response) => {
+      if (res.statusCode === 429) return "rateLimited";
+      if (res.statusCode === 404) return "ignored";
+      return res.statusCode >= 500;
+    };
+
+    // Runs requests through the breaker that the route answers with each of `statuses`
+    const respondWith = async (...statuses: number[]) => {
+      for (const status of statuses) {
+        const res = mockResponse(() => res.status(status));
+        await circuitBreaker.middleware(mockRequest(), res, jest.fn());
+      }
+      await new Promise(setImmediate);
+    };
+
+    beforeEach(() => {
+      jest.useRealTimers();
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, isError: classify });
+    });
+
+    it("should count the status codes and classes of the responses", async () => {
+      await respondWith(200, 200, 404, 503);
+
+      expect(circuitBreaker.stats.statusCodes).toEqual({ 200: 2, 404: 1, 503: 1 });
+      expect(circuitBreaker.stats.statusClasses).toEqual({ "2xx": 2, "4xx": 1, "5xx": 1 });
+    });
+
+    it("should leave ignored requests out of the error rate", async () => {
+      const ignored = jest.fn();
+      circuitBreaker.on("ignored", ignored);
+
+      await respondWith(404, 404, 404, 500);
+
+      expect(circuitBreaker.stats).toEqual(
+        expect.objectContaining({ fires: 4, ignored: 3, successes: 0, failures: 1 }),
+      );
+      expect(ignored).toHaveBeenCalledTimes(3);
+      // One failure out of the one request that counted
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should count rate-limited requests as failures by default", async () => {
+      const rateLimited = jest.fn();
+      circuitBreaker.on("rateLimited", rateLimited);
+
+      await respondWith(200, 429, 429);
+
+      expect(circuitBreaker.stats).toEqual(
+        expect.objectContaining({ rateLimited: 2, failures: 0, successes: 1 }),
+      );
+      expect(rateLimited).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: new Error("Request rate limited") }),
+      );
+      expect(circuitBreaker.state).toBe("open");
+    });
+
+    it("should weigh rate-limited requests by their weight", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({
+        ...options,
+        isError: classify,
+        categoryWeights: { rateLimited: 0.5 },
+      });
+
+      await respondWith(200, 429, 429);
+
+      // Two 429s weigh as one failure in three requests
+      expect(circuitBreaker.state).toBe("closed");
+    });
+
+    it("should still accept a boolean classifier", async () => {
+      circuitBreaker.shutdown();
+      circuitBreaker = new CircuitBreakerMiddleware({ ...options, isError: () => false });
+
+      await respondWith(500, 429);
+
+      expect(circuitBreaker.stats).toEqual(
+        expect.objectContaining({ successes: 2, failures: 0, rateLimited: 0 }),
+      );
+    });
+  });
+
   // Configuration and Customization
   describe("Configuration and Customization", () => {
     // Scaffolding for tests related to various configurations
@@ -1,237 +1,272 @@
-import EventEmitter from "events";
-import express, { Request, Response } from "express";
-import pino from "pino";
-import { Status } from "./status";
-
-interface CircuitBreakerOptionsParam {
-  // Indicates if the circuit breaker should only log errors without stopping the execution flow.
-  logOnly?: boolean;
-
-  // The time in milliseconds that an action should be allowed to execute before timing out.
-  // We won't actually cancel the underlying request, since that's not generally safe in Express
-  // but we'll record it as a failure
-  // Setting this to `false` disables the timeout feature.
-  timeout?: number | false;
-
-  // The time in milliseconds to wait before setting the breaker to `halfOpen` state,
-  // and trying the action again.
-  resetTimeout?: number;
-
-  // Sets the duration of the statistical rolling window, in milliseconds.
-  rollingCountTimeout?: number;
-
-  // Sets the number of buckets the rolling statistical window is divided into.
-  rollingCountBuckets?: number;
-
-  // The circuit name to use when reporting stats. Defaults to the name of the function
-  // this circuit controls.
-  name?: string;
-
-  // Indicates whether execution latencies should be tracked and calculated as percentiles.
-  rollingPercentilesEnabled?: boolean;
-
-  // The error percentage at which to open the circuit and start short-circuiting requests to fallback.
-  errorThresholdPercentage?: number;
-
-  // Whether this circuit is enabled upon construction.
-  enabled?: boolean;
-
-  // Determines whether to allow failures without opening the circuit during a brief warmup period.
-  // This can help in situations where, regardless of the `errorThresholdPercentage`, if the first
-  // execution times out or fails, the circuit immediately opens.
-  allowWarmUp?: boolean;
-
-  // The minimum number of requests within the rolling statistical window that must exist
-  // before the circuit breaker can open. This ensures that the circuit remains closed if
-  // the number of requests within the statistical window does not exceed this threshold,
-  // regardless of how many failures there are.
-  // Note that volumeThreshold is a == comparison, not a >= comparison.
-  volumeThreshold?: number;
-
+import { ErrorRequestHandler, NextFunction, Request, Response } from "express";
+import CircuitBreaker, {
+  CircuitBreakerBaseOptions,
+  CircuitBreakerEvent,
+  OutcomeCategory,
+} from "./breaker";
+import { BodyCapture } from "./body";
+import { CircuitOpenError, CircuitTimeoutError } from "./errors";
+import { OutcomeTracker, RequestOutcome } from "./outcome";
+import { ProblemDetails, rejectionProblem, retryAfterSeconds, sendProblem } from "./problem";
+
+interface CircuitBreakerOptionsParam extends CircuitBreakerBaseOptions {
   // An optional function that will be called when the circuit's function fails (returns a rejected Promise).
   // If this function returns truthy, the circuit's failure statistics will not be incremented.
   // This is useful for handling specific error types differently, such as not counting HTTP 404 errors as failures.
-  isError?: (res: Response) => boolean;
-
-  // A logger instance for the circuit breaker to use for logging. Allows integration with different
-  // logging libraries/frameworks.
-  logger?: pino.Logger;
-
-  // If you have multiple breakers in your app, the number of timers across breakers can get costly.
-  // This option allows you to provide an EventEmitter that rotates the buckets so you can have one
-  // global timer in your app. Make sure that you are emitting a 'rotate' event from this EventEmitter.
-  // rotateBucketController?: EventEmitter;
+  // `err` is the error the route passed to `next(err)` or threw, if `errorHandler` is mounted.
+  // Besides true or false it can return an OutcomeCategory, e.g. "rateLimited" for an upstream
+  // 429 to weigh it by `categoryWeights.rateLimited`, or "ignored" for a 404 to leave it out of
+  // the error rate altogether. `body` is the response body, if `captureBody` is set.
+  isError?: (res: Response, err?: unknown, body?: string) => boolean | OutcomeCategory;
+
+  // Hands `isError` the response body as well, for endpoints such as GraphQL or JSON-RPC that
+  // answer 200 with an `errors` field, keeping a copy of at most this many bytes of it. Bodies
+  // are decompressed if a compression middleware mounted after the breaker has gzipped them.
+  // The response streams to the client as usual; a body that outgrows the limit is dropped and
+  // `isError` gets `undefined`. Setting this to `false` (the default) leaves the body alone.
+  captureBody?: number | false;
+
+  // What happens to a request that runs past the `timeout`. In "observe" mode (the default) it
+  // is only recorded as a failure and the route answers whenever it gets round to it. In
+  // "respond" mode the breaker answers it there and then through the fallback, a 504 by
+  // default, aborts the `AbortSignal` it put on `res.locals.signal` so the route can stop work,
+  // and ignores whatever the route writes to the response afterwards.
+  timeoutMode?: TimeoutMode;
+
+  // Called instead of the route when the circuit rejects a request. It can send its own response,
+  // serve a degraded payload, hand off to another router, or call `next(context.error)` to pass
+  // a `CircuitOpenError` to your Express error handler. Defaults to a 503 response with a
+  // `Retry-After` header while the circuit is open, as RFC 9457 `application/problem+json` to
+  // clients that accept JSON and as plain text otherwise.
+  // With `timeoutMode: "respond"` it also answers timed-out requests, with a `CircuitTimeoutError`
+  // as `context.error`, which the default turns into a 504.
+  // If the fallback throws or rejects, the error is counted in `fallbackFailures` and passed to `next`.
+  fallback?: CircuitBreakerFallback;
+
+  // Customises the default fallback's response: the fields returned are merged over its problem
+  // details, e.g. to link a `type` URI documented for your API or answer with another `status`.
+  problemDetails?: (context: FallbackContext) => Partial<ProblemDetails>;
 }
 
-type CircuitBreakerOptions = Required<CircuitBreakerOptionsParam>;
-
-class CircuitBreakerMiddleware {
-  // State variables
-  private readonly status: Status;
-  private readonly options: CircuitBreakerOptions;
-  private readonly warmupTimeout: NodeJS.Timeout | null = null;
-
-  private state: "open" | "closed" | "half-open" | "shutdown" = "closed";
-  private warmUp: boolean;
-  private lastTimerAt: number = Date.now();
-  private resetTimeout: NodeJS.Timeout | null = null;
+type CircuitBreakerFallback = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  context: FallbackContext,
+) => void | Promise<void>;
+
+// Passed to the fallback, along with a ready-made error for `next(err)`.
+type FallbackContext = CircuitBreakerEvent & { error: CircuitOpenError | CircuitTimeoutError };
+
+type TimeoutMode = "observe" | "respond";
+
+// The response methods that throw, or error, once the breaker has answered a timed-out request
+const FENCED_METHODS = ["setHeader", "removeHeader", "writeHead", "write", "end"] as const;
+
+// What the breakers a request went through know about it, shared between them.
+type InFlightRequest = { error?: unknown };
+
+const inFlight = new WeakMap<Request, InFlightRequest>();
+
+// Error-handling middleware to mount after the routes: records the error a route passed to
+// `next(err)` or threw against the request, for the breakers it went through to classify and
+// report, then passes it on to the next error handler.
+const circuitErrorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  const record = inFlight.get(req);
+  if (record) record.error = err;
+  next(err);
+};
+
+// Guards the routes it is mounted in front of with a CircuitBreaker: an Express adapter on top
+// of the same state machine, stats and events as `execute()`.
+class CircuitBreakerMiddleware extends CircuitBreaker {
+  private readonly isError: (
+    res: Response,
+    err?: unknown,
+    body?: string,
+  ) => boolean | OutcomeCategory;
+  private readonly fallback: CircuitBreakerFallback;
+  private readonly timeoutMode: TimeoutMode;
+  private readonly captureBody: number | false;
+
+  // Mount after your routes, e.g. `app.use(breaker.errorHandler)`, so `isError`, the logs and
+  // the `failure` event get the route's actual error instead of a generic one.
+  public readonly errorHandler: ErrorRequestHandler = circuitErrorHandler;
 
   constructor(options: CircuitBreakerOptionsParam = {}) {
+    const { isError, fallback, problemDetails, timeoutMode, captureBody, ...baseOptions } = options;
+    super(baseOptions);
     const defaultErrorFn = (res: Response) => res.statusCode >= 400;
-
-    this.options = {
-      name: "circuit-breaker-" + Math.random(),
-      logOnly: false,
-      timeout: 10000,
-      resetTimeout: 30000,
-      rollingCountTimeout: 10000,
-      rollingCountBuckets: 10,
-      rollingPercentilesEnabled: true,
-      // capacity: Number.MAX_SAFE_INTEGER,
-      errorThresholdPercentage: 50,
-      enabled: true,
-      allowWarmUp: false,
-      volumeThreshold: 0,
-      isError: defaultErrorFn,
-      logger: pino(),
-      ...options,
+    const defaultFallback: CircuitBreakerFallback = (req, res, next, context) => {
+      const problem = { ...rejectionProblem(context), ...problemDetails?.(context) };
+      sendProblem(req, res, problem, retryAfterSeconds(context));
     };
-    this.status = new Status({
-      rollingCountBuckets: this.options.rollingCountBuckets,
-      rollingCountTimeout: this.options.rollingCountTimeout,
-      rollingPercentilesEnabled: this.options.rollingPercentilesEnabled,
-    });
-
-    this.warmUp = this.options.allowWarmUp;
-
-    if (this.warmUp) {
-      this.warmupTimeout = setTimeout(() => {
-        this.warmUp = false;
-      }, this.options.rollingCountTimeout);
-    }
-
-    this.options.logger = this.options.logger.child({
-      name: this.options.name,
-      type: "circuit-breaker",
-      status: this.status.stats,
-    });
+    this.isError = isError ?? defaultErrorFn;
+    this.fallback = fallback ?? defaultFallback;
+    this.timeoutMode = timeoutMode ?? "observe";
+    this.captureBody = captureBody ?? false;
   }
 
-  private startTimer() {
-    this.lastTimerAt = Date.now();
-    this.resetTimeout = setTimeout(() => {
-      this.options.logger.debug("Circuit breaker reset timeout: moving to half-open");
-      this.state = "half-open";
-    }, this.options.resetTimeout);
+  private async reject(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    error: CircuitOpenError | CircuitTimeoutError,
+  ) {
+    const event = this.event({ req, reason: error.message });
+    const context: FallbackContext = { ...event, error };
+    this.status.increment("fallbacks");
+    this.emit("fallback", event);
+    try {
+      await this.fallback(req, res, next, context);
+    } catch (err) {
+      this.status.increment("fallbackFailures");
+      this.options.logger.error({ err }, "Circuit breaker fallback failed");
+      next(err as Error);
+    }
   }
 
-  private async fail(err: Error, args: any[], latency: number) {
-    await this.status.increment("failures");
-    this.options.logger.warn({ err, args, latency }, "Circuit breaker failure");
-    if (this.warmUp) return;
-
-    const stats = this.status.stats;
-    if (stats.fires < this.options.volumeThreshold && !(this.state === "half-open")) return;
-    const errorRate = (stats.failures / stats.fires) * 100;
-    if (errorRate > this.options.errorThresholdPercentage || this.state === "half-open") {
-      this.open();
+  public async middleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+    if (this.options.enabled === false) {
+      next();
+      return;
     }
-  }
 
-  public async success() {
-    this.status.increment("successes");
-    if (this.state === "half-open") {
-      this.close();
+    const admission = await this.admit(req);
+    if (!admission.admitted) {
+      await this.reject(
+        req,
+        res,
+        next,
+        new CircuitOpenError(this.name, this.state, admission.reason),
+      );
+      return;
     }
-  }
 
-  public open() {
-    if (this.state !== "open") {
-      this.state = "open";
-      this.options.logger.warn("Circuit breaker opened");
-      this.status.open();
-      this.startTimer();
+    const record = inFlight.get(req) ?? {};
+    inFlight.set(req, record);
+
+    let timeoutId: NodeJS.Timeout | null = null;
+    // A timeout settles the request while its route runs on, so the slot is held until it ends
+    const tracker = new OutcomeTracker((outcome, latency, err) => {
+      if (timeoutId) clearTimeout(timeoutId);
+      admission.record(() => this.recordOutcome(req, outcome, latency, err));
+    }, admission.release);
+
+    const timeout = this.options.timeout;
+    if (timeout !== false) {
+      // Only answering timeouts needs a signal, so observing them costs no controller per request
+      const controller = this.timeoutMode === "respond" ? new AbortController() : null;
+      if (controller) res.locals.signal = controller.signal;
+      timeoutId = setTimeout(() => {
+        const err = new CircuitTimeoutError(this.name, timeout);
+        tracker.settle("timeout", err);
+        if (controller) {
+          controller.abort(err);
+          this.respondToTimeout(req, res, next, err);
+        }
+      }, timeout);
     }
-  }
 
-  public close() {
-    if (this.state !== "closed") {
-      if (this.resetTimeout) {
-        clearTimeout(this.resetTimeout);
+    // Treat any 400 or 500 status code as a failure, unless an error filter is provided
+    // in which case it will be called to determine if the response should be treated as a failure
+    const capture = this.captureBody === false ? undefined : new BodyCapture(res, this.captureBody);
+    tracker.watch(res, () => {
+      admission.record(() => this.status.recordStatusCode(res.statusCode));
+      try {
+        return this.classify(res, record.error, capture);
+      } catch (err) {
+        // A classifier that throws, e.g. on a body that isn't the JSON it expected, must not
+        // take the process down or leave the request holding its slot
+        this.options.logger.error({ err }, "Circuit breaker isError threw");
+        return { outcome: "failure", err: err instanceof Error ? err : new Error(String(err)) };
       }
-      this.state = "closed";
-      this.options.logger.info("Circuit breaker closed");
-      this.status.close();
-    }
+    });
+
+    next();
   }
 
-  public shutdown() {
-    this.state = "shutdown";
-    if (this.resetTimeout) {
-      clearTimeout(this.resetTimeout);
+  // Sorts a finished response into an outcome category, with the reason for the failing ones.
+  private classify(
+    res: Response,
+    cause: unknown,
+    capture?: BodyCapture,
+  ): { outcome: OutcomeCategory; err?: Error } {
+    const verdict = capture
+      ? this.isError(res, cause, capture.body(res))
+      : this.isError(res, cause);
+    const outcome = verdict === true ? "failure" : verdict === false ? "success" : verdict;
+    if (outcome === "success" || outcome === "ignored") return { outcome };
+    if (cause !== undefined) {
+      return { outcome, err: cause instanceof Error ? cause : new Error(String(cause)) };
     }
-    if (this.warmupTimeout) {
-      clearTimeout(this.warmupTimeout);
-    }
-    this.status.shutdown();
+    const message = outcome === "rateLimited" ? "Request rate limited" : "Request failed";
+    return { outcome, err: new Error(message) };
   }
 
-  public async middleware(req: Request, res: Response, next: (err?: Error) => void): Promise<void> {
-    const logger = this.options.logger;
-    if (this.options.enabled === false) {
-      next();
-      return;
+  // Counts how an admitted request ended.
+  private recordOutcome(req: Request, outcome: RequestOutcome, latency: number, err?: Error) {
+    switch (outcome) {
+      case "timeout":
+        this.recordTimeout(err as Error, latency, req);
+        break;
+      case "clientAbort":
+        this.status.increment("clientAborts");
+        this.options.logger.info(
+          { latency, countedAsFailure: this.options.countClientAborts },
+          "Request aborted by the client",
+        );
+        this.notify("clientAbort", { req, latency, reason: err });
+        if (this.options.countClientAborts) this.fail(err as Error, req, latency);
+        break;
+      default:
+        this.settleAs(outcome, latency, err, req);
     }
+  }
 
-    this.status.increment("fires");
-
-    if (this.state === "open") {
-      logger.warn("Circuit is open request rejected");
-      if (!this.options.logOnly) {
-        res.status(503).send("Service Unavailable");
-        return;
-      }
+  // Answers a request that ran past the `timeout` through the fallback, unless the route has
+  // already started its own response, and keeps the route from writing over the answer.
+  private respondToTimeout(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    err: CircuitTimeoutError,
+  ) {
+    if (res.headersSent) {
+      this.options.logger.warn("Request timed out mid-response; leaving it to the route");
+      return;
     }
+    this.fenceLateWrites(res);
+    this.reject(req, res, next, err);
+  }
 
-    const startedAt: number = Date.now();
-    let timeoutId: NodeJS.Timeout | null = null;
-    if (this.options.timeout !== false) {
-      timeoutId = setTimeout(() => {
-        const latency: number = Date.now() - startedAt;
-        this.status.increment("timeouts", latency);
-        this.fail(new Error("Request timed out"), [], latency);
-        logger.warn({ latency }, "Request timed out");
-      }, this.options.timeout);
+  // Makes the response methods ignore the route's late calls, instead of throwing "headers
+  // already sent" or erroring on a write after end, once the breaker's answer has gone out.
+  private fenceLateWrites(res: Response) {
+    let warned = false;
+    for (const method of FENCED_METHODS) {
+      const original = res[method] as (...args: unknown[]) => unknown;
+      const isLate =
+        method === "write" || method === "end" ? () => res.writableEnded : () => res.headersSent;
+      Object.assign(res, {
+        [method]: (...args: unknown[]) => {
+          if (!isLate()) return original.apply(res, args);
+          if (!warned) {
+            warned = true;
+            this.options.logger.warn({ method }, "Ignoring late writes to a timed-out response");
+          }
+          return method === "write" ? true : res;
+        },
+      });
     }
-
-    res.on("finish", () => {
-      if (timeoutId) clearTimeout(timeoutId);
-      const latency: number = Date.now() - startedAt;
-
-      // Treat any 400 or 500 status code as a failure, unless an error filter is provided
-      // in which case it will be called to determine if the response should be treated as a failure
-      if (this.options.isError(res)) {
-        this.fail(new Error("Request failed"), [], latency);
-      } else {
-        this.success()
-          .then(() => {
-            logger.info({ latency }, "Request succeeded");
-          })
-          .catch((err: Error) => {
-            logger.error({ err, latency }, "Error in handling success");
-          });
-      }
-    });
-
-    res.on("close", () => {
-      if (timeoutId) clearTimeout(timeoutId);
-      const latency: number = Date.now() - startedAt;
-      this.fail(new Error("Request closed prematurely"), [], latency);
-      logger.warn({ latency }, "Request closed prematurely");
-    });
-
-    next();
   }
 }
 
 export default CircuitBreakerMiddleware;
+export {
+  CircuitBreakerOptionsParam,
+  CircuitBreakerFallback,
+  FallbackContext,
+  TimeoutMode,
+  circuitErrorHandler,
+};
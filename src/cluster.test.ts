@@ -0,0 +1,155 @@
+import EventEmitter from "events";
+import CircuitBreakerMiddleware from "./circuit";
+import { ClusterCoordinator, ClusterStateStore, ProcessLike, WorkerLike } from "./cluster";
+import { MemoryStateStore } from "./store";
+
+// Stands in for `node:cluster` and the IPC channels to its workers, delivering every message
+// asynchronously and as a copy, the way real IPC does
+class FakeCluster extends EventEmitter {
+  public readonly workers: { [id: string]: WorkerLike } = {};
+  private nextId = 0;
+
+  public fork(): ProcessLike {
+    const workerProcess = new EventEmitter() as EventEmitter & ProcessLike;
+    const worker: WorkerLike = {
+      send: message => deliver(() => workerProcess.emit("message", copy(message))),
+    };
+    workerProcess.send = message => deliver(() => this.emit("message", worker, copy(message)));
+    this.workers[String(this.nextId++)] = worker;
+    return workerProcess;
+  }
+}
+
+const copy = <T>(message: T): T => JSON.parse(JSON.stringify(message));
+const deliver = (fn: () => void) => setImmediate(fn);
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Cluster", () => {
+  let fakeCluster: FakeCluster;
+  let primaryStore: MemoryStateStore;
+  let coordinator: ClusterCoordinator;
+  let stores: ClusterStateStore[];
+
+  const workerStore = () => {
+    const store = new ClusterStateStore({ process: fakeCluster.fork(), requestTimeout: 50 });
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    fakeCluster = new FakeCluster();
+    primaryStore = new MemoryStateStore();
+    coordinator = new ClusterCoordinator({
+      store: primaryStore,
+      cluster: fakeCluster,
+    });
+    coordinator.start();
+    stores = [];
+  });
+
+  afterEach(() => {
+    coordinator.stop();
+    stores.forEach(store => store.close());
+  });
+
+  describe("ClusterStateStore", () => {
+    it("should aggregate counts from every worker in the primary", async () => {
+      const [a, b] = [workerStore(), workerStore()];
+
+      await a.incrementCounts("users", 1, { fires: 2, failures: 2 }, 10000);
+      await b.incrementCounts("users", 1, { fires: 3 }, 10000);
+
+      await expect(a.getCounts("users", [1])).resolves.toMatchObject({ fires: 5, failures: 2 });
+      await expect(primaryStore.getCounts("users", [1])).resolves.toMatchObject({ fires: 5 });
+    });
+
+    it("should broadcast published states to every worker", async () => {
+      const [a, b] = [workerStore(), workerStore()];
+      const listener = jest.fn();
+      b.subscribe("users", listener);
+
+      await a.compareAndSetState("users", 0, { state: "open", changedAt: 1, version: 1 });
+      await wait(5);
+
+      expect(listener).toHaveBeenCalledWith({ state: "open", changedAt: 1, version: 1 });
+    });
+
+    it("should fail calls the primary does not answer in time", async () => {
+      coordinator.stop();
+
+      await expect(workerStore().getState("users")).rejects.toThrow(
+        "Cluster primary did not respond",
+      );
+    });
+
+    it("should fail calls outside a cluster worker", async () => {
+      const store = new ClusterStateStore({ process: new EventEmitter() });
+      stores.push(store);
+
+      await expect(store.getState("users")).rejects.toThrow("Not running in a cluster worker");
+    });
+
+    it("should only listen to the primary from first use until closed", async () => {
+      const workerProcess = fakeCluster.fork() as EventEmitter & ProcessLike;
+      const store = new ClusterStateStore({ process: workerProcess });
+      expect(workerProcess.listenerCount("message")).toBe(0);
+
+      await store.getState("users");
+      store.subscribe("users", () => undefined);
+      expect(workerProcess.listenerCount("message")).toBe(1);
+
+      store.close();
+      expect(workerProcess.listenerCount("message")).toBe(0);
+    });
+  });
+
+  describe("with breakers", () => {
+    let breakers: CircuitBreakerMiddleware[];
+
+    const workerBreaker = (options = {}) => {
+      const breaker = new CircuitBreakerMiddleware({
+        name: "users",
+        stateStore: workerStore(),
+        stateSyncInterval: 10,
+        ...options,
+      });
+      breakers.push(breaker);
+      return breaker;
+    };
+
+    beforeEach(() => {
+      breakers = [];
+    });
+
+    afterEach(() => {
+      breakers.forEach(breaker => breaker.shutdown());
+    });
+
+    it("should open the circuit in every worker when one decides to open", async () => {
+      const [a, b] = [workerBreaker(), workerBreaker()];
+      await wait(20);
+
+      a.open();
+      await wait(20);
+
+      expect(b.state).toBe("open");
+    });
+
+    it("should fall back to local counts when the primary stops responding", async () => {
+      const breaker = workerBreaker({ volumeThreshold: 100 });
+      await primaryStore.incrementCounts(
+        "users",
+        Math.floor(Date.now() / 1000),
+        { fires: 1000 },
+        10000,
+      );
+      await wait(20);
+      expect(breaker["windowCounts"]().fires).toBeGreaterThanOrEqual(1000);
+
+      coordinator.stop();
+      await wait(100);
+
+      expect(breaker["windowCounts"]().fires).toBe(0);
+    });
+  });
+});
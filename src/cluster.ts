@@ -0,0 +1,264 @@
+import cluster from "cluster";
+import { CircuitStateStore, MemoryStateStore, StoredCounts, StoredState } from "./store";
+
+const MESSAGE_PREFIX = "circuit-breaker:";
+
+type StoreMethod = "getState" | "compareAndSetState" | "incrementCounts" | "getCounts";
+
+type RequestMessage = {
+  type: "circuit-breaker:request";
+  id: number;
+  method: StoreMethod;
+  args: unknown[];
+};
+
+type ResponseMessage = {
+  type: "circuit-breaker:response";
+  id: number;
+  result?: unknown;
+  error?: string;
+};
+
+type StateMessage = {
+  type: "circuit-breaker:state";
+  name: string;
+  state: StoredState;
+};
+
+type Message = RequestMessage | ResponseMessage | StateMessage;
+
+const isMessage = (message: unknown): message is Message =>
+  typeof message === "object" &&
+  message !== null &&
+  String((message as { type?: unknown }).type).startsWith(MESSAGE_PREFIX);
+
+// The parts of a cluster worker the coordinator talks to.
+type WorkerLike = {
+  send(message: Message): unknown;
+};
+
+type ClusterMessageListener = (worker: WorkerLike, message: unknown) => void;
+
+// The parts of `node:cluster` the coordinator uses.
+type ClusterLike = {
+  on(event: "message", listener: ClusterMessageListener): unknown;
+  removeListener(event: "message", listener: ClusterMessageListener): unknown;
+  workers?: NodeJS.Dict<WorkerLike>;
+};
+
+// The parts of a worker's `process` the store uses.
+type ProcessLike = {
+  send?: (message: Message) => unknown;
+  on(event: "message", listener: (message: unknown) => void): unknown;
+  removeListener(event: "message", listener: (message: unknown) => void): unknown;
+};
+
+type ClusterCoordinatorOptions = {
+  // Where the primary keeps the cluster-wide state. Defaults to a MemoryStateStore.
+  store?: CircuitStateStore;
+  // Defaults to `node:cluster`.
+  cluster?: ClusterLike;
+};
+
+// Runs in the primary process. Aggregates the counts every worker's ClusterStateStore sends,
+// and broadcasts each published open/close decision to all workers.
+class ClusterCoordinator {
+  private readonly store: CircuitStateStore;
+  private readonly cluster: ClusterLike;
+
+  constructor(options: ClusterCoordinatorOptions = {}) {
+    this.store = options.store ?? new MemoryStateStore();
+    this.cluster = options.cluster ?? cluster;
+  }
+
+  public start(): void {
+    this.cluster.on("message", this.handleMessage);
+  }
+
+  public stop(): void {
+    this.cluster.removeListener("message", this.handleMessage);
+  }
+
+  private handleMessage = (worker: WorkerLike, message: unknown): void => {
+    if (!isMessage(message) || message.type !== "circuit-breaker:request") return;
+    const { id, method, args } = message;
+
+    this.call(method, args)
+      .then(result => {
+        worker.send({ type: "circuit-breaker:response", id, result });
+        if (method === "compareAndSetState" && result === true) {
+          this.broadcast(args[0] as string, args[2] as StoredState);
+        }
+      })
+      .catch((err: Error) => {
+        worker.send({ type: "circuit-breaker:response", id, error: err.message });
+      });
+  };
+
+  private call(method: StoreMethod, args: unknown[]): Promise<unknown> {
+    switch (method) {
+      case "getState":
+        return this.store.getState(args[0] as string);
+      case "compareAndSetState":
+        return this.store.compareAndSetState(
+          args[0] as string,
+          args[1] as number,
+          args[2] as StoredState,
+        );
+      case "incrementCounts":
+        return this.store.incrementCounts(
+          args[0] as string,
+          args[1] as number,
+          args[2] as Partial<StoredCounts>,
+          args[3] as number,
+        );
+      case "getCounts":
+        return this.store.getCounts(args[0] as string, args[1] as number[]);
+      default:
+        return Promise.reject(new Error(`Unknown state store method: ${method}`));
+    }
+  }
+
+  private broadcast(name: string, state: StoredState): void {
+    for (const worker of Object.values(this.cluster.workers ?? {})) {
+      worker?.send({ type: "circuit-breaker:state", name, state });
+    }
+  }
+}
+
+type ClusterStateStoreOptions = {
+  // How long, in milliseconds, to wait for the primary before failing the call. Breakers fall
+  // back to their local counts while the primary is not answering.
+  requestTimeout?: number;
+  // Defaults to the current `process`.
+  process?: ProcessLike;
+};
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+// Runs in each worker. Forwards every call to the primary's ClusterCoordinator over IPC.
+class ClusterStateStore implements CircuitStateStore {
+  private readonly process: ProcessLike;
+  private readonly requestTimeout: number;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly subscribers = new Map<string, Set<(state: StoredState) => void>>();
+  private nextId = 0;
+  // Whether we are listening to the primary, which we only start on first use so that merely
+  // creating the store doesn't hold on to the IPC channel
+  private listening = false;
+
+  constructor(options: ClusterStateStoreOptions = {}) {
+    this.process = options.process ?? process;
+    this.requestTimeout = options.requestTimeout ?? 500;
+  }
+
+  public getState(name: string): Promise<StoredState | undefined> {
+    return this.request("getState", [name]) as Promise<StoredState | undefined>;
+  }
+
+  public compareAndSetState(
+    name: string,
+    expectedVersion: number,
+    next: StoredState,
+  ): Promise<boolean> {
+    return this.request("compareAndSetState", [name, expectedVersion, next]) as Promise<boolean>;
+  }
+
+  public async incrementCounts(
+    name: string,
+    bucket: number,
+    delta: Partial<StoredCounts>,
+    ttl: number,
+  ): Promise<void> {
+    await this.request("incrementCounts", [name, bucket, delta, ttl]);
+  }
+
+  public getCounts(name: string, buckets: number[]): Promise<StoredCounts> {
+    return this.request("getCounts", [name, buckets]) as Promise<StoredCounts>;
+  }
+
+  public subscribe(name: string, listener: (state: StoredState) => void): () => void {
+    this.listen();
+    const listeners = this.subscribers.get(name) ?? new Set();
+    listeners.add(listener);
+    this.subscribers.set(name, listeners);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.subscribers.delete(name);
+    };
+  }
+
+  // Stops listening to the primary and fails every call still waiting on it.
+  public close(): void {
+    this.process.removeListener("message", this.handleMessage);
+    this.listening = false;
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error("Cluster state store closed"));
+      this.pending.delete(id);
+    }
+  }
+
+  private request(method: StoreMethod, args: unknown[]): Promise<unknown> {
+    const send = this.process.send;
+    if (!send) {
+      return Promise.reject(new Error("Not running in a cluster worker"));
+    }
+
+    this.listen();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error("Cluster primary did not respond"));
+      }, this.requestTimeout);
+      this.pending.set(id, { resolve, reject, timer });
+      try {
+        send.call(this.process, { type: "circuit-breaker:request", id, method, args });
+      } catch (err) {
+        // The IPC channel is gone, so the primary will never answer
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(err);
+      }
+    });
+  }
+
+  private listen(): void {
+    if (this.listening) return;
+    this.process.on("message", this.handleMessage);
+    this.listening = true;
+  }
+
+  private handleMessage = (message: unknown): void => {
+    if (!isMessage(message)) return;
+
+    if (message.type === "circuit-breaker:response") {
+      const request = this.pending.get(message.id);
+      if (!request) return;
+      this.pending.delete(message.id);
+      clearTimeout(request.timer);
+      if (message.error !== undefined) {
+        request.reject(new Error(message.error));
+      } else {
+        request.resolve(message.result);
+      }
+    } else if (message.type === "circuit-breaker:state") {
+      this.subscribers.get(message.name)?.forEach(listener => listener(message.state));
+    }
+  };
+}
+
+export {
+  ClusterCoordinator,
+  ClusterCoordinatorOptions,
+  ClusterStateStore,
+  ClusterStateStoreOptions,
+  ClusterLike,
+  WorkerLike,
+  ProcessLike,
+};
@@ -0,0 +1,50 @@
+// Passed to fallbacks, and on to Express error handlers, when the circuit short-circuits a request.
+class CircuitOpenError extends Error {
+  // The name of the circuit that rejected the request.
+  public readonly circuit: string;
+
+  // The state of the circuit when the request was rejected.
+  public readonly state: string;
+
+  // Express error handlers and `http-errors` compatible code read the response status from here.
+  public readonly status: number = 503;
+
+  constructor(circuit: string, state: string, message = "Circuit is open") {
+    super(message);
+    this.name = "CircuitOpenError";
+    this.circuit = circuit;
+    this.state = state;
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+// Rejects a call guarded by a breaker that ran past its `timeout`, and aborts its signal.
+class CircuitTimeoutError extends Error {
+  // The name of the circuit the call timed out in.
+  public readonly circuit: string;
+
+  // The timeout it ran past, in milliseconds.
+  public readonly timeout: number;
+
+  // Express error handlers and `http-errors` compatible code read the response status from here.
+  public readonly status: number = 504;
+
+  constructor(circuit: string, timeout: number) {
+    super(`Timed out after ${timeout}ms`);
+    this.name = "CircuitTimeoutError";
+    this.circuit = circuit;
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, CircuitTimeoutError.prototype);
+  }
+}
+
+// Thrown when restoring a breaker from a snapshot that is malformed or from another version.
+class InvalidSnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSnapshotError";
+    Object.setPrototypeOf(this, InvalidSnapshotError.prototype);
+  }
+}
+
+export { CircuitOpenError, CircuitTimeoutError, InvalidSnapshotError };
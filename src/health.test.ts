@@ -0,0 +1,95 @@
+import http from "http";
+import { AddressInfo, Socket } from "net";
+import pino from "pino";
+import CircuitBreakerMiddleware from "./circuit";
+import { httpHealthCheck } from "./health";
+
+describe("httpHealthCheck", () => {
+  let server: http.Server;
+  // Open connections, destroyed on close since `server.closeAllConnections()` needs Node 18.2
+  let sockets: Set<Socket>;
+  let status: number;
+  let delay: number;
+  let url: string;
+
+  beforeEach(done => {
+    status = 200;
+    delay = 0;
+    server = http.createServer((req, res) => {
+      setTimeout(() => {
+        res.statusCode = status;
+        res.end();
+      }, delay);
+    });
+    sockets = new Set();
+    server.on("connection", socket => {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+    });
+    server.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/health`;
+      done();
+    });
+  });
+
+  afterEach(done => {
+    server.close(done);
+    sockets.forEach(socket => socket.destroy());
+  });
+
+  it("should pass on a 2xx response", async () => {
+    status = 204;
+
+    await expect(httpHealthCheck(url)()).resolves.toBe(true);
+  });
+
+  it("should fail on any other status", async () => {
+    status = 503;
+
+    await expect(httpHealthCheck(url)()).resolves.toBe(false);
+  });
+
+  it("should fail when the server is too slow", async () => {
+    delay = 200;
+
+    await expect(httpHealthCheck(url, 50)()).resolves.toBe(false);
+  });
+
+  it("should fail when nothing is listening", async () => {
+    await expect(httpHealthCheck("http://127.0.0.1:1/health")()).resolves.toBe(false);
+  });
+
+  it("should let a breaker recover early from a URL", async () => {
+    status = 503;
+    const breaker = new CircuitBreakerMiddleware({
+      healthCheck: url,
+      healthCheckInterval: 20,
+      logger: pino({ level: "silent" }),
+    });
+    breaker.open();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(breaker.state).toBe("open");
+
+    status = 200;
+    await new Promise(resolve => breaker.once("halfOpen", resolve));
+
+    expect(breaker.state).toBe("half-open");
+    breaker.shutdown();
+  });
+
+  it("should give a URL check its own timeout rather than the interval", async () => {
+    delay = 100;
+    const breaker = new CircuitBreakerMiddleware({
+      healthCheck: url,
+      healthCheckInterval: 20,
+      healthCheckTimeout: 1000,
+      logger: pino({ level: "silent" }),
+    });
+    breaker.open();
+
+    await new Promise(resolve => breaker.once("halfOpen", resolve));
+
+    expect(breaker.state).toBe("half-open");
+    breaker.shutdown();
+  });
+});
@@ -0,0 +1,23 @@
+import http from "http";
+import https from "https";
+
+// Resolves whether the dependency behind a circuit looks healthy. Rejecting counts as unhealthy.
+type HealthCheck = () => Promise<boolean>;
+
+// A health check that GETs `url` and passes on any 2xx response. Errors, other statuses and
+// responses slower than `timeout` milliseconds fail it.
+function httpHealthCheck(url: string, timeout = 2000): HealthCheck {
+  const client = url.startsWith("https:") ? https : http;
+  return () =>
+    new Promise<boolean>(resolve => {
+      const req = client.get(url, { timeout }, res => {
+        res.resume();
+        const status = res.statusCode ?? 0;
+        resolve(status >= 200 && status < 300);
+      });
+      req.on("timeout", () => req.destroy(new Error("Health check timed out")));
+      req.on("error", () => resolve(false));
+    });
+}
+
+export { HealthCheck, httpHealthCheck };
@@ -0,0 +1,38 @@
+import { Status } from "./status";
+
+// Run with `npm run bench`. Compares the histogram-backed Status with the sorted latency arrays
+// it replaced, at rolling-window sizes seen in production.
+
+const PERCENTILES = [0, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 0.995, 1];
+
+function time(label: string, iterations: number, fn: () => void): void {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) fn();
+  const perCall = Number(process.hrtime.bigint() - start) / iterations / 1e3;
+  process.stdout.write(`${label.padEnd(48)} ${perCall.toFixed(1).padStart(10)} µs/op\n`);
+}
+
+// What the stats getter did before: concatenate, sort and index into every latency.
+function exactStats(buckets: number[][]): number[] {
+  const latencies = buckets.reduce((acc: number[], bucket) => [...acc, ...bucket], []);
+  latencies.sort((a, b) => a - b);
+  return PERCENTILES.map(p => latencies[Math.max(0, Math.ceil(p * latencies.length) - 1)]);
+}
+
+describe("stats benchmark", () => {
+  it.each([1000, 10000, 100000])("with %i latencies in the window", size => {
+    const status = new Status({ rollingCountBuckets: 10, rollingCountTimeout: 10000 });
+    const buckets: number[][] = Array.from({ length: 10 }, () => []);
+    for (let i = 0; i < size; i++) {
+      const latency = Math.round(Math.exp(Math.random() * 10));
+      status.increment("successes", latency);
+      buckets[i % 10].push(latency);
+    }
+    const iterations = Math.max(5, Math.round(1e6 / size));
+
+    time(`sorted arrays, ${size} latencies`, iterations, () => exactStats(buckets));
+    time(`histograms, ${size} latencies`, iterations, () => status.stats);
+    time(`counters only, ${size} latencies`, iterations, () => status.counts);
+    status.shutdown();
+  });
+});
@@ -0,0 +1,123 @@
+import { Histogram } from "./histogram";
+
+const PERCENTILES = [0, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 0.995, 1];
+
+// The exact method Status used before histograms: sort every latency and index into them.
+function exactPercentile(percentile: number, sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  if (percentile <= 0) return sorted[0];
+  if (percentile >= 1) return sorted[sorted.length - 1];
+  return sorted[Math.ceil(percentile * sorted.length) - 1];
+}
+
+// A deterministic generator, so failures reproduce.
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+}
+
+describe("Histogram", () => {
+  it("should report zeros when empty", () => {
+    const histogram = new Histogram();
+
+    expect(histogram.count).toBe(0);
+    expect(histogram.mean).toBe(0);
+    expect(histogram.percentiles(PERCENTILES)).toEqual(PERCENTILES.map(() => 0));
+  });
+
+  it("should keep small values exact", () => {
+    const histogram = new Histogram();
+    [50, 100, 150, 200, 250].forEach(value => histogram.record(value));
+
+    expect(histogram.percentiles([0, 0.25, 0.5, 0.75, 1])).toEqual([50, 100, 150, 200, 250]);
+    expect(histogram.mean).toBe(150);
+  });
+
+  it("should return the exact minimum and maximum", () => {
+    const histogram = new Histogram(1);
+    [1234, 98765, 4321].forEach(value => histogram.record(value));
+
+    expect(histogram.percentiles([0, 1])).toEqual([1234, 98765]);
+  });
+
+  it("should answer percentiles in the order they were asked for", () => {
+    const histogram = new Histogram();
+    [10, 20, 30, 40].forEach(value => histogram.record(value));
+
+    expect(histogram.percentiles([0.75, 0.25, 0.5])).toEqual([30, 10, 20]);
+  });
+
+  it("should reject an unsupported precision", () => {
+    expect(() => new Histogram(0)).toThrow(RangeError);
+    expect(() => new Histogram(6)).toThrow(RangeError);
+    expect(() => new Histogram(2.5)).toThrow(RangeError);
+  });
+
+  it.each([
+    ["uniform", (next: () => number) => next() * 5000],
+    ["long-tailed", (next: () => number) => Math.exp(next() * 14)],
+  ])("should match the exact percentiles of %s latencies", (_, sample) => {
+    const next = random(42);
+    const latencies = Array.from({ length: 20000 }, () => Math.round(sample(next)));
+    const sorted = [...latencies].sort((a, b) => a - b);
+
+    for (const digits of [1, 2, 3]) {
+      const histogram = new Histogram(digits);
+      latencies.forEach(latency => histogram.record(latency));
+      const tolerance = 10 ** -digits;
+
+      histogram.percentiles(PERCENTILES).forEach((value, i) => {
+        const exact = exactPercentile(PERCENTILES[i], sorted);
+        expect(Math.abs(value - exact)).toBeLessThanOrEqual(Math.max(1, exact * tolerance));
+      });
+    }
+  });
+
+  it("should use a bounded number of buckets however many values it records", () => {
+    const histogram = new Histogram();
+    for (let i = 0; i < 100000; i++) histogram.record(i % 60000);
+
+    // 256 exact buckets, then 128 for each power of two up to 2^16
+    expect(histogram.toJSON().counts.length).toBeLessThanOrEqual(256 + 8 * 128);
+    expect(histogram.count).toBe(100000);
+  });
+
+  it("should merge into the same result as recording everything in one", () => {
+    const next = random(7);
+    const latencies = Array.from({ length: 5000 }, () => Math.round(next() * 10000));
+    const whole = new Histogram();
+    const halves = [new Histogram(), new Histogram()];
+    latencies.forEach((latency, i) => {
+      whole.record(latency);
+      halves[i % 2].record(latency);
+    });
+
+    const merged = halves[0].merge(halves[1]);
+
+    expect(merged.toJSON().count).toBe(whole.count);
+    expect(merged.percentiles(PERCENTILES)).toEqual(whole.percentiles(PERCENTILES));
+  });
+
+  it("should re-bucket when merging a histogram of another precision", () => {
+    const coarse = new Histogram(1);
+    [100, 1000, 10000].forEach(value => coarse.record(value));
+
+    const merged = new Histogram(3).merge(coarse);
+
+    expect(merged.count).toBe(3);
+    expect(merged.percentiles([0, 0.5, 1])).toEqual([100, expect.closeTo(1000, -2), 10000]);
+  });
+
+  it("should round-trip through JSON", () => {
+    const histogram = new Histogram(3);
+    [5, 500, 50000].forEach(value => histogram.record(value));
+
+    const copy = Histogram.fromJSON(JSON.parse(JSON.stringify(histogram)));
+
+    expect(copy.significantDigits).toBe(3);
+    expect(copy.percentiles(PERCENTILES)).toEqual(histogram.percentiles(PERCENTILES));
+    expect(copy.mean).toBe(histogram.mean);
+  });
+});
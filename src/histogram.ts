@@ -0,0 +1,141 @@
+// The serialised form of a Histogram, as found in snapshots and logged stats.
+type HistogramSnapshot = {
+  significantDigits: number;
+  // [bucket index, count] pairs for every non-empty bucket
+  counts: [number, number][];
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+};
+
+// A fixed-memory, mergeable latency histogram with HDR-style log-linear buckets: values below
+// 2^subBucketBits get a bucket each, and every power of two above that is split into
+// 2^(subBucketBits - 1) equal buckets, so percentiles keep `significantDigits` of precision
+// however many values are recorded.
+class Histogram {
+  public readonly significantDigits: number;
+  private readonly subBucketBits: number;
+  private readonly halfSubBucketCount: number;
+  private readonly counts = new Map<number, number>();
+  private _count = 0;
+  private _sum = 0;
+  private _min = Infinity;
+  private _max = 0;
+
+  constructor(significantDigits = 2) {
+    if (!Number.isInteger(significantDigits) || significantDigits < 1 || significantDigits > 5) {
+      throw new RangeError("significantDigits must be an integer from 1 to 5");
+    }
+    this.significantDigits = significantDigits;
+    this.subBucketBits = Math.ceil(Math.log2(2 * 10 ** significantDigits));
+    this.halfSubBucketCount = 2 ** (this.subBucketBits - 1);
+  }
+
+  static fromJSON(snapshot: HistogramSnapshot): Histogram {
+    const histogram = new Histogram(snapshot.significantDigits);
+    for (const [index, count] of snapshot.counts) {
+      histogram.counts.set(index, count);
+    }
+    histogram._count = snapshot.count;
+    histogram._sum = snapshot.sum;
+    histogram._min = snapshot.count > 0 ? snapshot.min : Infinity;
+    histogram._max = snapshot.max;
+    return histogram;
+  }
+
+  get count(): number {
+    return this._count;
+  }
+
+  get mean(): number {
+    return this._count > 0 ? this._sum / this._count : 0;
+  }
+
+  public record(value: number, count = 1): void {
+    const index = this.indexFor(value);
+    this.counts.set(index, (this.counts.get(index) ?? 0) + count);
+    this._count += count;
+    this._sum += value * count;
+    this._min = Math.min(this._min, value);
+    this._max = Math.max(this._max, value);
+  }
+
+  // Adds every value recorded in `other`, re-bucketing them if its precision differs.
+  public merge(other: Histogram): this {
+    if (other._count === 0) return this;
+    const sameLayout = other.significantDigits === this.significantDigits;
+    for (const [otherIndex, count] of other.counts) {
+      const index = sameLayout ? otherIndex : this.indexFor(other.valueFor(otherIndex));
+      this.counts.set(index, (this.counts.get(index) ?? 0) + count);
+    }
+    this._count += other._count;
+    this._sum += other._sum;
+    this._min = Math.min(this._min, other._min);
+    this._max = Math.max(this._max, other._max);
+    return this;
+  }
+
+  // The value at each percentile, given as fractions between 0 and 1, in a single pass.
+  // 0 and 1 are the exact minimum and maximum.
+  public percentiles(percentiles: number[]): number[] {
+    if (this._count === 0) return percentiles.map(() => 0);
+
+    const indexes = Array.from(this.counts.keys()).sort((a, b) => a - b);
+    const ranks = percentiles.map(percentile => Math.ceil(percentile * this._count) - 1);
+    // Visit the requested percentiles in rank order, whatever order they were asked for in
+    const order = ranks.map((_, i) => i).sort((a, b) => ranks[a] - ranks[b]);
+    const results: number[] = new Array(percentiles.length);
+    let cumulative = 0;
+    let next = 0;
+
+    for (const index of indexes) {
+      cumulative += this.counts.get(index) as number;
+      while (next < order.length && ranks[order[next]] < cumulative) {
+        results[order[next]] = this.clamp(this.valueFor(index));
+        next++;
+      }
+    }
+    percentiles.forEach((percentile, i) => {
+      if (percentile <= 0) results[i] = this._min;
+      if (percentile >= 1) results[i] = this._max;
+    });
+    return results;
+  }
+
+  public toJSON(): HistogramSnapshot {
+    return {
+      significantDigits: this.significantDigits,
+      counts: Array.from(this.counts.entries()),
+      count: this._count,
+      sum: this._sum,
+      min: this._count > 0 ? this._min : 0,
+      max: this._max,
+    };
+  }
+
+  private indexFor(value: number): number {
+    const integer = Math.max(0, Math.floor(value));
+    if (integer < 2 * this.halfSubBucketCount) return integer;
+
+    const magnitude =
+      integer <= 0xffffffff ? 31 - Math.clz32(integer) : Math.floor(Math.log2(integer));
+    const shift = magnitude - this.subBucketBits + 1;
+    return shift * this.halfSubBucketCount + Math.floor(integer / 2 ** shift);
+  }
+
+  // The midpoint of the values that land in bucket `index`.
+  private valueFor(index: number): number {
+    if (index < 2 * this.halfSubBucketCount) return index;
+
+    const shift = Math.floor(index / this.halfSubBucketCount) - 1;
+    const lowest = (index - shift * this.halfSubBucketCount) * 2 ** shift;
+    return lowest + Math.floor((2 ** shift - 1) / 2);
+  }
+
+  private clamp(value: number): number {
+    return Math.min(this._max, Math.max(this._min, value));
+  }
+}
+
+export { Histogram, HistogramSnapshot };
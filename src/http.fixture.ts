@@ -0,0 +1,66 @@
+import http from "http";
+import { AddressInfo, Socket } from "net";
+import express, { RequestHandler } from "express";
+import pino from "pino";
+import CircuitBreakerMiddleware, { CircuitBreakerOptionsParam } from "./circuit";
+
+type Reply = { status: number; headers: http.IncomingHttpHeaders; body: Buffer };
+
+type TestServer = {
+  breaker: CircuitBreakerMiddleware;
+  server: http.Server;
+  // GETs "/", resolving with the whole reply once its body has been read.
+  get: (headers?: http.OutgoingHttpHeaders) => Promise<Reply>;
+  // Shuts the breaker down and closes the server, dropping any connections still open.
+  close: () => Promise<void>;
+};
+
+// Serves `route` at "/" behind a fresh breaker on a free local port, for tests that need the
+// real `finish` and `close` events of real responses rather than mocks of them.
+function serve(route: RequestHandler, options: CircuitBreakerOptionsParam = {}) {
+  const breaker = new CircuitBreakerMiddleware({
+    name: "users",
+    resetTimeout: 30000,
+    logger: pino({ level: "silent" }),
+    ...options,
+  });
+  const app = express();
+  app.use((req, res, next) => breaker.middleware(req, res, next));
+  app.get("/", route);
+
+  return new Promise<TestServer>(resolve => {
+    const server = app.listen(0, () => resolve({ breaker, server, get, close }));
+    // Tracked to be destroyed on close, since `server.closeAllConnections()` needs Node 18.2
+    const sockets = new Set<Socket>();
+    server.on("connection", socket => {
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+    });
+
+    const get = (headers: http.OutgoingHttpHeaders = {}) =>
+      new Promise<Reply>((resolveReply, reject) => {
+        const { port } = server.address() as AddressInfo;
+        const req = http.get({ port, path: "/", headers }, res => {
+          const chunks: Buffer[] = [];
+          res.on("data", chunk => chunks.push(chunk));
+          res.on("end", () =>
+            resolveReply({
+              status: res.statusCode ?? 0,
+              headers: res.headers,
+              body: Buffer.concat(chunks),
+            }),
+          );
+        });
+        req.on("error", reject);
+      });
+
+    const close = () =>
+      new Promise<void>(resolveClose => {
+        breaker.shutdown();
+        server.close(() => resolveClose());
+        sockets.forEach(socket => socket.destroy());
+      });
+  });
+}
+
+export { Reply, TestServer, serve };
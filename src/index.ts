@@ -0,0 +1,22 @@
+import CircuitBreakerMiddleware from "./circuit";
+
+export * from "./admin";
+export * from "./backoff";
+export * from "./breaker";
+export * from "./circuit";
+export * from "./cluster";
+export * from "./errors";
+export * from "./health";
+export * from "./histogram";
+export * from "./metrics";
+export * from "./outcome";
+export * from "./problem";
+export * from "./registry";
+export * from "./rotation";
+export * from "./semaphore";
+export * from "./snapshot";
+export * from "./source";
+export * from "./status";
+export * from "./store";
+export { CircuitBreakerMiddleware };
+export default CircuitBreakerMiddleware;
@@ -0,0 +1,146 @@
+import { Request, Response } from "express";
+import CircuitBreakerMiddleware from "./circuit";
+import { metricsHandler, renderMetrics } from "./metrics";
+
+type Sample = { name: string; labels: Record<string, string>; value: number };
+
+// A minimal parser for the Prometheus text format, enough to check what we emit
+const parse = (text: string) => {
+  const types: Record<string, string> = {};
+  const samples: Sample[] = [];
+  for (const line of text.split("\n")) {
+    if (line === "") continue;
+    const type = line.match(/^# TYPE (\S+) (\S+)$/);
+    if (type) {
+      types[type[1]] = type[2];
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+    const sample = line.match(/^([a-z_]+)\{(.*)\} (\S+)$/);
+    if (!sample) throw new Error(`Unparseable line: ${line}`);
+    const labels: Record<string, string> = {};
+    for (const [, key, value] of sample[2].matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)) {
+      labels[key] = value;
+    }
+    samples.push({ name: sample[1], labels, value: Number(sample[3]) });
+  }
+  return { types, samples };
+};
+
+const find = (samples: Sample[], name: string, labels: Record<string, string>) =>
+  samples.find(
+    sample =>
+      sample.name === name &&
+      Object.entries(labels).every(([key, value]) => sample.labels[key] === value),
+  );
+
+describe("Metrics", () => {
+  let breakers: CircuitBreakerMiddleware[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    breakers = [
+      new CircuitBreakerMiddleware({ name: "users" }),
+      new CircuitBreakerMiddleware({ name: "orders" }),
+    ];
+  });
+
+  afterEach(() => {
+    breakers.forEach(breaker => breaker.shutdown());
+    jest.useRealTimers();
+  });
+
+  it("should declare a type for every metric it emits", () => {
+    const { types, samples } = parse(renderMetrics(breakers));
+
+    expect(samples.length).toBeGreaterThan(0);
+    samples.forEach(sample => expect(types[sample.name]).toBeDefined());
+    expect(types["circuit_breaker_fires_total"]).toBe("counter");
+    expect(types["circuit_breaker_state"]).toBe("gauge");
+  });
+
+  it("should report counters per breaker name", async () => {
+    await breakers[0]["status"].increment("fires");
+    await breakers[0]["status"].increment("failures");
+    await breakers[1]["status"].increment("semaphoreRejections");
+
+    const { samples } = parse(renderMetrics(breakers));
+
+    expect(find(samples, "circuit_breaker_fires_total", { name: "users" })?.value).toBe(1);
+    expect(find(samples, "circuit_breaker_failures_total", { name: "users" })?.value).toBe(1);
+    expect(find(samples, "circuit_breaker_fires_total", { name: "orders" })?.value).toBe(0);
+    expect(
+      find(samples, "circuit_breaker_semaphore_rejections_total", { name: "orders" })?.value,
+    ).toBe(1);
+  });
+
+  it("should count the calls an open circuit turns away", async () => {
+    breakers[0].open();
+
+    await expect(breakers[0].execute(async () => 42)).rejects.toThrow();
+
+    const { samples } = parse(renderMetrics(breakers));
+    expect(find(samples, "circuit_breaker_rejects_total", { name: "users" })?.value).toBe(1);
+    expect(find(samples, "circuit_breaker_rejects_total", { name: "orders" })?.value).toBe(0);
+  });
+
+  it("should keep counters monotonic across bucket rotation", async () => {
+    await breakers[0]["status"].increment("fires");
+    jest.advanceTimersByTime(20000);
+
+    const { samples } = parse(renderMetrics(breakers[0]));
+
+    expect(find(samples, "circuit_breaker_fires_total", { name: "users" })?.value).toBe(1);
+  });
+
+  it("should set the state gauge for the active state only", () => {
+    breakers[0].open();
+
+    const { samples } = parse(renderMetrics(breakers));
+    const states = samples.filter(
+      sample => sample.name === "circuit_breaker_state" && sample.labels.name === "users",
+    );
+
+    expect(states).toHaveLength(4);
+    expect(states.filter(sample => sample.value === 1)).toEqual([
+      expect.objectContaining({ labels: { name: "users", state: "open" } }),
+    ]);
+  });
+
+  it("should report latency percentiles", async () => {
+    const call = (latency: number) =>
+      breakers[0].execute(() => new Promise(resolve => setTimeout(resolve, latency)));
+    const calls = Promise.all([call(100), call(300)]);
+    await jest.advanceTimersByTimeAsync(300);
+    await calls;
+
+    const { samples } = parse(renderMetrics(breakers));
+
+    expect(
+      find(samples, "circuit_breaker_latency_ms", { name: "users", quantile: "1" })?.value,
+    ).toBe(300);
+    expect(find(samples, "circuit_breaker_latency_mean_ms", { name: "users" })?.value).toBe(200);
+  });
+
+  it("should escape label values", () => {
+    const breaker = new CircuitBreakerMiddleware({ name: 'say "hi"\\' });
+    breakers.push(breaker);
+
+    const text = renderMetrics(breaker);
+
+    expect(text).toContain('name="say \\"hi\\"\\\\"');
+    expect(() => parse(text)).not.toThrow();
+  });
+
+  it("should serve the metrics from an Express handler", () => {
+    const res = {
+      set: jest.fn(),
+      send: jest.fn(),
+    } as unknown as Response;
+
+    metricsHandler(() => breakers)({} as Request, res);
+
+    expect(res.set).toHaveBeenCalledWith("Content-Type", expect.stringContaining("text/plain"));
+    expect(res.send).toHaveBeenCalledWith(renderMetrics(breakers));
+  });
+});
@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import CircuitBreaker, { CircuitState } from "./breaker";
+import { BreakerSource, resolveBreakers } from "./source";
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge";
+  samples: { labels: Record<string, string>; value: number }[];
+};
+
+const STATES: CircuitState[] = ["closed", "open", "half-open", "shutdown"];
+
+const COUNTERS = [
+  ["fires", "Requests seen by the circuit"],
+  ["successes", "Requests that succeeded"],
+  ["failures", "Requests that failed"],
+  ["timeouts", "Requests that exceeded the circuit timeout"],
+  ["slowCalls", "Requests that took longer than the slow-call duration threshold"],
+  ["clientAborts", "Requests the client gave up on before the response finished"],
+  ["rateLimited", "Requests classified as rate limited"],
+  ["ignored", "Requests classified as ignored, which don't count toward the error rate"],
+  ["rejects", "Requests the circuit turned away, for whatever reason"],
+  ["semaphoreRejections", "Requests rejected because the circuit was at capacity"],
+  ["fallbacks", "Requests handed to the fallback"],
+  ["fallbackFailures", "Fallbacks that threw or rejected"],
+] as const;
+
+// fallbackFailures -> fallback_failures
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => "_" + letter.toLowerCase());
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatSample(name: string, labels: Record<string, string>, value: number): string {
+  const pairs = Object.entries(labels).map(([key, val]) => `${key}="${escapeLabel(val)}"`);
+  return `${name}{${pairs.join(",")}} ${value}`;
+}
+
+function collect(breakers: CircuitBreaker[]): Metric[] {
+  const metrics: Metric[] = COUNTERS.map(([field, help]) => ({
+    name: `circuit_breaker_${snakeCase(field)}_total`,
+    help,
+    type: "counter",
+    samples: breakers.map(breaker => ({
+      labels: { name: breaker.name },
+      value: breaker.totals[field],
+    })),
+  }));
+
+  metrics.push({
+    name: "circuit_breaker_state",
+    help: "Current circuit state, 1 for the active state and 0 otherwise",
+    type: "gauge",
+    samples: breakers.flatMap(breaker =>
+      STATES.map(state => ({
+        labels: { name: breaker.name, state },
+        value: breaker.state === state ? 1 : 0,
+      })),
+    ),
+  });
+
+  const stats = breakers.map(breaker => ({ name: breaker.name, stats: breaker.stats }));
+  metrics.push({
+    name: "circuit_breaker_latency_mean_ms",
+    help: "Mean request latency over the rolling window, in milliseconds",
+    type: "gauge",
+    samples: stats.map(({ name, stats }) => ({ labels: { name }, value: stats.latencyMean ?? 0 })),
+  });
+  metrics.push({
+    name: "circuit_breaker_latency_ms",
+    help: "Request latency percentiles over the rolling window, in milliseconds",
+    type: "gauge",
+    samples: stats.flatMap(({ name, stats }) =>
+      Object.entries(stats.percentiles).map(([quantile, value]) => ({
+        labels: { name, quantile },
+        value,
+      })),
+    ),
+  });
+
+  return metrics;
+}
+
+// Renders the stats of every breaker in the Prometheus text exposition format (version 0.0.4).
+function renderMetrics(source: BreakerSource): string {
+  const lines: string[] = [];
+  for (const metric of collect(resolveBreakers(source))) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const sample of metric.samples) {
+      lines.push(formatSample(metric.name, sample.labels, sample.value));
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+// An Express handler that serves `renderMetrics` for a Prometheus scrape.
+function metricsHandler(source: BreakerSource) {
+  return (req: Request, res: Response): void => {
+    res.set("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.send(renderMetrics(source));
+  };
+}
+
+export { metricsHandler, renderMetrics };
@@ -0,0 +1,152 @@
+import http from "http";
+import { once } from "events";
+import { AddressInfo } from "net";
+import { RequestHandler } from "express";
+import CircuitBreakerMiddleware, { CircuitBreakerOptionsParam } from "./circuit";
+import { serve, TestServer } from "./http.fixture";
+import { OutcomeTracker } from "./outcome";
+
+describe("OutcomeTracker", () => {
+  it("should settle only once", () => {
+    const listener = jest.fn();
+    const tracker = new OutcomeTracker(listener);
+
+    expect(tracker.settle("timeout", new Error("Timed out"))).toBe(true);
+    expect(tracker.settle("success")).toBe(false);
+    expect(tracker.settle("clientAbort")).toBe(false);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("timeout", expect.any(Number), expect.any(Error));
+    expect(tracker.outcome).toBe("timeout");
+  });
+});
+
+describe("request outcomes", () => {
+  let testServer: TestServer;
+  let breaker: CircuitBreakerMiddleware;
+  // Resolves once the route's response has closed, by which time the breaker has seen both
+  // its `finish` and its `close`
+  let closed: Promise<void>;
+  // Called whenever a request reaches the route
+  let routed: () => void;
+
+  const listen = async (route: RequestHandler, options: CircuitBreakerOptionsParam = {}) => {
+    testServer = await serve((req, res, next) => {
+      closed = new Promise(resolveClosed => res.on("close", () => resolveClosed()));
+      routed();
+      route(req, res, next);
+    }, options);
+    breaker = testServer.breaker;
+  };
+
+  const request = async () => (await testServer.get()).status;
+
+  beforeEach(() => {
+    routed = () => undefined;
+  });
+
+  afterEach(() => testServer.close());
+
+  it("should count a successful request once", async () => {
+    await listen((req, res) => res.send("OK"));
+
+    await request();
+    await request();
+    await closed;
+
+    expect(breaker.stats).toEqual(expect.objectContaining({ fires: 2, successes: 2, failures: 0 }));
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should count a failed request once", async () => {
+    await listen((req, res) => res.status(500).send("Oops"));
+
+    await request();
+    await closed;
+
+    expect(breaker.stats).toEqual(expect.objectContaining({ fires: 1, successes: 0, failures: 1 }));
+  });
+
+  // Opens a request to a route that never answers, then gives up on it
+  const abandon = async () => {
+    const { port } = testServer.server.address() as AddressInfo;
+    const reached = new Promise<void>(resolve => (routed = resolve));
+    const req = http.get({ port, path: "/" });
+    req.on("error", () => undefined);
+    await reached;
+    req.destroy();
+  };
+
+  it("should count a request the client gave up on as a client abort", async () => {
+    await listen(() => undefined);
+    const failure = jest.fn();
+    breaker.on("failure", failure);
+    const aborted = once(breaker, "clientAbort");
+
+    await abandon();
+    const [event] = await aborted;
+
+    expect(event.reason.message).toBe("Request closed prematurely");
+    expect(breaker.stats).toEqual(
+      expect.objectContaining({ fires: 1, clientAborts: 1, failures: 0, successes: 0 }),
+    );
+    expect(failure).not.toHaveBeenCalled();
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("should leave client aborts out of the error rate", async () => {
+    let calls = 0;
+    await listen((req, res) => {
+      if (++calls > 1) res.status(500).send("Oops");
+    });
+    const aborted = once(breaker, "clientAbort");
+
+    await abandon();
+    await aborted;
+    await request();
+    await closed;
+
+    expect(breaker.stats).toEqual(
+      expect.objectContaining({ fires: 2, clientAborts: 1, failures: 1 }),
+    );
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should count client aborts as failures when asked to", async () => {
+    await listen(() => undefined, { countClientAborts: true });
+    const failed = once(breaker, "failure");
+
+    await abandon();
+    await failed;
+
+    expect(breaker.stats).toEqual(
+      expect.objectContaining({ fires: 1, clientAborts: 1, failures: 1 }),
+    );
+    expect(breaker.state).toBe("open");
+  });
+
+  it("should count a timed-out request once, however it ends", async () => {
+    await listen((req, res) => setTimeout(() => res.send("late"), 60), { timeout: 20 });
+
+    await expect(request()).resolves.toBe(200);
+    await closed;
+
+    expect(breaker.stats).toEqual(
+      expect.objectContaining({ fires: 1, timeouts: 1, failures: 1, successes: 0 }),
+    );
+  });
+
+  it("should count a timed-out request the breaker answered once", async () => {
+    await listen((req, res) => setTimeout(() => res.send("late"), 60), {
+      timeout: 20,
+      timeoutMode: "respond",
+    });
+
+    await expect(request()).resolves.toBe(504);
+    await closed;
+
+    expect(breaker.stats).toEqual(
+      expect.objectContaining({ fires: 1, timeouts: 1, failures: 1, successes: 0 }),
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { Response } from "express";
+import { OutcomeCategory } from "./breaker";
+
+// How an admitted request ended. Each request is counted as exactly one of these.
+type RequestOutcome = OutcomeCategory | "timeout" | "clientAbort";
+
+type OutcomeListener = (outcome: RequestOutcome, latency: number, err?: Error) => void;
+
+// Settles an admitted request exactly once, whichever of the response finishing, the client
+// going away and the timeout comes first. Whatever happens after that is ignored, such as the
+// `close` Node emits after every `finish`, or a timed-out route finally answering.
+class OutcomeTracker {
+  private readonly startedAt = Date.now();
+  private readonly listener: OutcomeListener;
+  // Called once the response is done with, which after a timeout can be well after settling
+  private readonly onEnd?: () => void;
+  private _outcome: RequestOutcome | null = null;
+
+  constructor(listener: OutcomeListener, onEnd?: () => void) {
+    this.listener = listener;
+    this.onEnd = onEnd;
+  }
+
+  get outcome(): RequestOutcome | null {
+    return this._outcome;
+  }
+
+  get settled(): boolean {
+    return this._outcome !== null;
+  }
+
+  // Records the outcome, unless the request has already settled. Returns whether it did.
+  public settle(outcome: RequestOutcome, err?: Error): boolean {
+    if (this._outcome !== null) return false;
+    this._outcome = outcome;
+    this.listener(outcome, Date.now() - this.startedAt, err);
+    return true;
+  }
+
+  // Settles as whatever `classify` makes of the response once it has been handed off to the
+  // client, or as a client abort if the connection closes before that.
+  public watch(res: Response, classify: () => { outcome: OutcomeCategory; err?: Error }) {
+    res.on("finish", () => {
+      this.onEnd?.();
+      if (this.settled) return;
+      const { outcome, err } = classify();
+      this.settle(outcome, err);
+    });
+    res.on("close", () => {
+      this.onEnd?.();
+      this.settle("clientAbort", new Error("Request closed prematurely"));
+    });
+  }
+}
+
+export { OutcomeListener, OutcomeTracker, RequestOutcome };
@@ -0,0 +1,207 @@
+import http from "http";
+import { AddressInfo } from "net";
+import express, { RequestHandler } from "express";
+import pino from "pino";
+import CircuitBreakerMiddleware, { CircuitBreakerOptionsParam } from "./circuit";
+import { CircuitTimeoutError } from "./errors";
+
+type Reply = { status: number; headers: http.IncomingHttpHeaders; body: string };
+
+describe("rejection responses", () => {
+  let breaker: CircuitBreakerMiddleware;
+  let server: http.Server;
+
+  const listen = (
+    options: CircuitBreakerOptionsParam = {},
+    route: RequestHandler = (req, res) => res.send("OK"),
+  ) =>
+    new Promise<void>(resolve => {
+      breaker = new CircuitBreakerMiddleware({
+        name: "users",
+        resetTimeout: 30000,
+        logger: pino({ level: "silent" }),
+        ...options,
+      });
+      const app = express();
+      app.use((req, res, next) => breaker.middleware(req, res, next));
+      app.get("/", route);
+      server = app.listen(0, resolve);
+    });
+
+  const request = (headers: http.OutgoingHttpHeaders = {}) =>
+    new Promise<Reply>((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      const req = http.request({ port, path: "/", headers }, res => {
+        let body = "";
+        res.on("data", chunk => (body += chunk));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+      });
+      req.on("error", reject);
+      req.end();
+    });
+
+  afterEach(done => {
+    breaker.shutdown();
+    server.close(done);
+  });
+
+  it("should tell clients when to retry an open circuit", async () => {
+    await listen();
+    breaker.open();
+
+    const reply = await request();
+
+    expect(reply.status).toBe(503);
+    expect(reply.headers["retry-after"]).toBe("30");
+    expect(reply.headers["content-type"]).toMatch(/^text\/plain/);
+    expect(reply.body).toBe("Service Unavailable");
+  });
+
+  it.each(["application/problem+json", "application/json", "text/html, application/json"])(
+    "should answer %s clients with problem details",
+    async accept => {
+      await listen();
+      breaker.open();
+
+      const reply = await request({ accept });
+
+      expect(reply.headers["content-type"]).toMatch(/^application\/problem\+json/);
+      expect(JSON.parse(reply.body)).toEqual({
+        type: "about:blank",
+        title: "Service Unavailable",
+        status: 503,
+        detail: "Circuit is open",
+        circuit: "users",
+        state: "open",
+      });
+    },
+  );
+
+  it("should leave out Retry-After when it cannot tell", async () => {
+    await listen({ halfOpenMaxRequests: 0 });
+    breaker.open();
+    breaker["toHalfOpen"]("test");
+
+    const reply = await request({ accept: "application/json" });
+
+    expect(reply.status).toBe(503);
+    expect(reply.headers["retry-after"]).toBeUndefined();
+    expect(JSON.parse(reply.body)).toMatchObject({ state: "half-open" });
+  });
+
+  it("should merge in the breaker's own problem details", async () => {
+    await listen({
+      problemDetails: context => ({
+        type: "https://errors.example.com/dependency-down",
+        status: 502,
+        dependency: context.name,
+      }),
+    });
+    breaker.open();
+
+    const reply = await request({ accept: "application/problem+json" });
+
+    expect(reply.status).toBe(502);
+    expect(JSON.parse(reply.body)).toMatchObject({
+      type: "https://errors.example.com/dependency-down",
+      title: "Service Unavailable",
+      status: 502,
+      dependency: "users",
+    });
+  });
+
+  describe("timed-out requests", () => {
+    // A route that answers only after `delay`, well past the breaker's timeout
+    const slowRoute =
+      (delay: number, onAnswer: (err?: unknown) => void = () => undefined): RequestHandler =>
+      (req, res) => {
+        setTimeout(() => {
+          try {
+            res.status(200).send("late");
+            onAnswer();
+          } catch (err) {
+            onAnswer(err);
+          }
+        }, delay);
+      };
+
+    it("should be answered by the route in observe mode", async () => {
+      await listen({ timeout: 20 }, slowRoute(60));
+
+      const reply = await request();
+
+      expect(reply.status).toBe(200);
+      expect(reply.body).toBe("late");
+      expect(breaker.stats.timeouts).toBe(1);
+    });
+
+    it("should be answered with a 504 in respond mode", async () => {
+      await listen({ timeout: 20, timeoutMode: "respond" }, slowRoute(60));
+
+      const reply = await request({ accept: "application/json" });
+
+      expect(reply.status).toBe(504);
+      expect(JSON.parse(reply.body)).toMatchObject({
+        title: "Gateway Timeout",
+        status: 504,
+        detail: "Timed out after 20ms",
+        circuit: "users",
+      });
+      expect(breaker.stats).toEqual(expect.objectContaining({ timeouts: 1, fallbacks: 1 }));
+    });
+
+    it("should ignore the route's late answer", async () => {
+      let settle: (err?: unknown) => void = () => undefined;
+      const answered = new Promise<unknown>(resolve => (settle = resolve));
+      await listen({ timeout: 20, timeoutMode: "respond" }, slowRoute(60, settle));
+
+      await request();
+
+      await expect(answered).resolves.toBeUndefined();
+    });
+
+    it("should abort the signal on res.locals", async () => {
+      let signal: AbortSignal | undefined;
+      await listen({ timeout: 20, timeoutMode: "respond" }, (req, res) => {
+        signal = res.locals.signal;
+      });
+
+      await request();
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(CircuitTimeoutError);
+    });
+
+    it("should hand the fallback a CircuitTimeoutError", async () => {
+      await listen(
+        {
+          timeout: 20,
+          timeoutMode: "respond",
+          fallback: (req, res, next, context) => {
+            res.status(200).json({ timedOut: context.error });
+          },
+        },
+        slowRoute(60),
+      );
+
+      const reply = await request();
+
+      expect(reply.status).toBe(200);
+      expect(JSON.parse(reply.body).timedOut).toMatchObject({ circuit: "users", timeout: 20 });
+    });
+
+    it("should leave a response the route has started to the route", async () => {
+      await listen({ timeout: 20, timeoutMode: "respond" }, (req, res) => {
+        res.writeHead(200);
+        res.write("partial ");
+        setTimeout(() => res.end("done"), 60);
+      });
+
+      const reply = await request();
+
+      expect(reply.status).toBe(200);
+      expect(reply.body).toBe("partial done");
+      expect(breaker.stats.fallbacks).toBe(0);
+    });
+  });
+});
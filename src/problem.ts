@@ -0,0 +1,55 @@
+import { Request, Response } from "express";
+import { FallbackContext } from "./circuit";
+import { CircuitTimeoutError } from "./errors";
+
+// An RFC 9457 problem details object. Members beyond the standard ones are extensions.
+type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+};
+
+// Clients asking for any of these get the problem details as JSON rather than plain text.
+const JSON_TYPES = ["application/problem+json", "application/json"];
+
+// The problem details the default fallback answers a rejected or timed-out request with.
+function rejectionProblem(context: FallbackContext): ProblemDetails {
+  const timedOut = context.error instanceof CircuitTimeoutError;
+  return {
+    type: "about:blank",
+    title: timedOut ? "Gateway Timeout" : "Service Unavailable",
+    status: context.error.status,
+    detail: context.error.message,
+    circuit: context.name,
+    state: context.state,
+  };
+}
+
+// Whole seconds until the open circuit lets a trial through, for the `Retry-After` header.
+// Undefined unless the circuit is open, since a half-open or saturated circuit cannot say.
+function retryAfterSeconds(context: FallbackContext, now = Date.now()): number | undefined {
+  if (context.nextAttemptAt === undefined) return undefined;
+  return Math.max(1, Math.ceil((context.nextAttemptAt - now) / 1000));
+}
+
+// Answers with `problem`, as `application/problem+json` when the client accepts JSON and as
+// its plain-text title otherwise, with a `Retry-After` header when `retryAfter` is known.
+function sendProblem(req: Request, res: Response, problem: ProblemDetails, retryAfter?: number) {
+  if (retryAfter !== undefined) {
+    res.setHeader("Retry-After", String(retryAfter));
+  }
+  res.status(problem.status);
+  const accepted = req.accepts(["text/plain", ...JSON_TYPES]);
+  if (typeof accepted === "string" && JSON_TYPES.includes(accepted)) {
+    res.setHeader("Content-Type", "application/problem+json; charset=utf-8");
+    res.send(JSON.stringify(problem));
+  } else {
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.send(problem.title);
+  }
+}
+
+export { ProblemDetails, rejectionProblem, retryAfterSeconds, sendProblem };
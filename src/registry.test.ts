@@ -0,0 +1,171 @@
+import { Request, Response } from "express";
+import { CircuitBreakerRegistry } from "./registry";
+import { renderMetrics } from "./metrics";
+
+describe("CircuitBreakerRegistry", () => {
+  let registry: CircuitBreakerRegistry;
+
+  const mockRequest = (path: string): Request =>
+    ({ path, accepts: jest.fn() } as unknown as Request);
+
+  const mockResponse = (): Response => {
+    const res: Partial<Response> = {};
+    res.statusCode = 200;
+    res.status = jest.fn((code: number): Response => {
+      res.statusCode = code;
+      return res as Response;
+    });
+    res.send = jest.fn().mockReturnValue(res) as unknown as Response["send"];
+    res.on = jest.fn() as unknown as Response["on"];
+    res.setHeader = jest.fn() as unknown as Response["setHeader"];
+    return res as Response;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new CircuitBreakerRegistry({ keyFn: req => req.path });
+  });
+
+  afterEach(() => {
+    registry.shutdownAll();
+    jest.useRealTimers();
+  });
+
+  describe("breaker", () => {
+    it("should lazily create one breaker per key, named after the key", () => {
+      const users = registry.breaker("/users");
+
+      expect(registry.breaker("/users")).toBe(users);
+      expect(registry.breaker("/orders")).not.toBe(users);
+      expect(users.name).toBe("/users");
+      expect(registry.size).toBe(2);
+    });
+
+    it("should merge per-key overrides over the shared defaults", () => {
+      registry.shutdownAll();
+      registry = new CircuitBreakerRegistry({
+        keyFn: req => req.path,
+        defaults: { timeout: 1000, resetTimeout: 5000 },
+        overrides: { "/slow": { timeout: 30000 } },
+      });
+
+      expect(registry.breaker("/slow")["options"]).toMatchObject({
+        timeout: 30000,
+        resetTimeout: 5000,
+      });
+      expect(registry.breaker("/fast")["options"]).toMatchObject({ timeout: 1000 });
+    });
+  });
+
+  describe("middleware", () => {
+    it("should route each request through its own breaker", async () => {
+      registry.breaker("/users").open();
+      const next = jest.fn();
+
+      const blocked = mockResponse();
+      await registry.middleware(mockRequest("/users"), blocked, next);
+      await registry.middleware(mockRequest("/orders"), mockResponse(), next);
+
+      expect(blocked.status).toHaveBeenCalledWith(503);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let requests without a key through unguarded", async () => {
+      registry.shutdownAll();
+      registry = new CircuitBreakerRegistry({ keyFn: () => undefined });
+      const next = jest.fn();
+
+      await registry.middleware(mockRequest("/users"), mockResponse(), next);
+
+      expect(next).toHaveBeenCalled();
+      expect(registry.size).toBe(0);
+    });
+
+    it("should hand route errors to the breaker that guarded the request", async () => {
+      const failure = jest.fn();
+      registry.breaker("/users").on("failure", failure);
+      const req = mockRequest("/users");
+      const res = mockResponse();
+      const err = new Error("Upstream refused");
+
+      await registry.middleware(req, res, jest.fn());
+      res.status(500);
+      registry.errorHandler(err, req, res, jest.fn());
+      const finish = (res.on as jest.Mock).mock.calls.find(([event]) => event === "finish")[1];
+      finish();
+      await Promise.resolve();
+
+      expect(failure).toHaveBeenCalledWith(expect.objectContaining({ reason: err }));
+    });
+  });
+
+  describe("eviction", () => {
+    it("should shut down the least recently used breaker beyond maxBreakers", () => {
+      registry.shutdownAll();
+      registry = new CircuitBreakerRegistry({ keyFn: req => req.path, maxBreakers: 2 });
+      const a = registry.breaker("a");
+      registry.breaker("b");
+      registry.breaker("a");
+
+      registry.breaker("c");
+
+      expect(registry.names()).toEqual(["a", "c"]);
+      expect(a.state).toBe("closed");
+    });
+
+    it("should shut down breakers idle for longer than idleTimeout", () => {
+      registry.shutdownAll();
+      registry = new CircuitBreakerRegistry({ keyFn: req => req.path, idleTimeout: 1000 });
+      const idle = registry.breaker("idle");
+      jest.advanceTimersByTime(600);
+      registry.breaker("busy");
+
+      jest.advanceTimersByTime(600);
+
+      expect(registry.names()).toEqual(["busy"]);
+      expect(idle.state).toBe("shutdown");
+    });
+
+    it("should not keep the process alive just to sweep", () => {
+      registry.shutdownAll();
+      jest.useRealTimers();
+      registry = new CircuitBreakerRegistry({ keyFn: req => req.path, idleTimeout: 1000 });
+
+      expect(registry["sweepTimer"]?.hasRef()).toBe(false);
+    });
+  });
+
+  describe("introspection", () => {
+    it("should look up breakers by name without creating them", () => {
+      const users = registry.breaker("/users");
+
+      expect(registry.get("/users")).toBe(users);
+      expect(registry.get("/missing")).toBeUndefined();
+      expect(registry.size).toBe(1);
+    });
+
+    it("should be usable as a metrics source", () => {
+      registry.breaker("/users");
+      registry.breaker("/orders");
+
+      const text = renderMetrics(registry);
+
+      expect(text).toContain('circuit_breaker_fires_total{name="/users"} 0');
+      expect(text).toContain('circuit_breaker_fires_total{name="/orders"} 0');
+    });
+  });
+
+  describe("shutdownAll", () => {
+    it("should shut down every breaker and stop all timers", () => {
+      registry.shutdownAll();
+      registry = new CircuitBreakerRegistry({ keyFn: req => req.path, idleTimeout: 1000 });
+      const breakers = [registry.breaker("a"), registry.breaker("b")];
+
+      registry.shutdownAll();
+
+      breakers.forEach(breaker => expect(breaker.state).toBe("shutdown"));
+      expect(registry.size).toBe(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { ErrorRequestHandler, NextFunction, Request, Response } from "express";
+import CircuitBreakerMiddleware, {
+  CircuitBreakerOptionsParam,
+  circuitErrorHandler,
+} from "./circuit";
+
+interface CircuitBreakerRegistryOptions {
+  // Picks the circuit a request belongs to, e.g. `req => req.baseUrl + req.path` or the upstream
+  // host. It runs before routing, so `req.route` isn't set yet. Requests for which it returns
+  // `undefined` pass through unguarded.
+  keyFn: (req: Request) => string | undefined;
+
+  // Options shared by every breaker the registry creates. Each breaker is named after its key.
+  defaults?: CircuitBreakerOptionsParam;
+
+  // Per-key options, merged over `defaults`.
+  overrides?: { [key: string]: CircuitBreakerOptionsParam };
+
+  // The most breakers kept at once. Creating one more shuts down the least recently used.
+  maxBreakers?: number;
+
+  // Shut down breakers that have not seen a request for this many milliseconds.
+  // Setting this to `false` disables idle eviction.
+  idleTimeout?: number | false;
+}
+
+type Entry = {
+  breaker: CircuitBreakerMiddleware;
+  lastUsedAt: number;
+};
+
+// Lazily creates one CircuitBreakerMiddleware per key, so one bad route, upstream or tenant
+// only trips its own circuit.
+class CircuitBreakerRegistry implements Iterable<CircuitBreakerMiddleware> {
+  private readonly options: Required<CircuitBreakerRegistryOptions>;
+  // Kept in least to most recently used order
+  private readonly entries = new Map<string, Entry>();
+  private readonly sweepTimer: NodeJS.Timeout | null = null;
+
+  // Mount after your routes to hand their errors to whichever breaker guarded the request.
+  public readonly errorHandler: ErrorRequestHandler = circuitErrorHandler;
+
+  constructor(options: CircuitBreakerRegistryOptions) {
+    this.options = {
+      defaults: {},
+      overrides: {},
+      maxBreakers: 1000,
+      idleTimeout: false,
+      ...options,
+    };
+
+    if (this.options.idleTimeout !== false) {
+      this.sweepTimer = setInterval(() => this.evictIdle(), this.options.idleTimeout);
+      // Housekeeping alone shouldn't keep the process alive
+      this.sweepTimer.unref();
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Returns the breaker for `key`, creating it if needed, and marks it as recently used.
+  public breaker(key: string): CircuitBreakerMiddleware {
+    let entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+    } else {
+      entry = {
+        breaker: new CircuitBreakerMiddleware({
+          ...this.options.defaults,
+          ...this.options.overrides[key],
+          name: key,
+        }),
+        lastUsedAt: 0,
+      };
+      this.evictOverflow();
+    }
+    entry.lastUsedAt = Date.now();
+    this.entries.set(key, entry);
+    return entry.breaker;
+  }
+
+  // Looks up an existing breaker by name without creating it or touching its recency.
+  public get(name: string): CircuitBreakerMiddleware | undefined {
+    return this.entries.get(name)?.breaker;
+  }
+
+  public names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  public [Symbol.iterator](): Iterator<CircuitBreakerMiddleware> {
+    return Array.from(this.entries.values(), entry => entry.breaker)[Symbol.iterator]();
+  }
+
+  // Shuts down and forgets the breaker for `key`. Returns false if there was none.
+  public delete(key: string): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    entry.breaker.shutdown();
+    return true;
+  }
+
+  public shutdownAll(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+    }
+    for (const key of this.names()) {
+      this.delete(key);
+    }
+  }
+
+  public async middleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const key = this.options.keyFn(req);
+    if (key === undefined) {
+      next();
+      return;
+    }
+    await this.breaker(key).middleware(req, res, next);
+  }
+
+  // Makes room for one more breaker.
+  private evictOverflow(): void {
+    while (this.entries.size >= this.options.maxBreakers) {
+      const oldest = this.entries.keys().next().value as string;
+      this.delete(oldest);
+    }
+  }
+
+  private evictIdle(): void {
+    if (this.options.idleTimeout === false) return;
+    const cutoff = Date.now() - this.options.idleTimeout;
+    for (const [key, entry] of this.entries) {
+      // Entries are in recency order, so everything after the first fresh one is fresh too
+      if (entry.lastUsedAt > cutoff) break;
+      this.delete(key);
+    }
+  }
+}
+
+export { CircuitBreakerRegistry, CircuitBreakerRegistryOptions };
@@ -0,0 +1,56 @@
+import { RotateBucketController, globalRotateBucketController } from "./rotation";
+import { Status } from "./status";
+
+describe("RotateBucketController", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should only run its timer while something is listening", () => {
+    const controller = new RotateBucketController(100);
+    expect(jest.getTimerCount()).toBe(0);
+
+    const listener = jest.fn();
+    controller.on("rotate", listener);
+    expect(jest.getTimerCount()).toBe(1);
+
+    jest.advanceTimersByTime(300);
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    controller.removeListener("rotate", listener);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should rotate many Status instances from a single timer", async () => {
+    const controller = new RotateBucketController(1000);
+    const statuses = Array.from(
+      { length: 20 },
+      () =>
+        new Status({
+          rollingCountBuckets: 10,
+          rollingCountTimeout: 10000,
+          rotateBucketController: controller,
+        }),
+    );
+    await Promise.all(statuses.map(status => status.increment("successes")));
+
+    expect(jest.getTimerCount()).toBe(1);
+    jest.advanceTimersByTime(1000);
+    statuses.forEach(status => expect(status["buckets"][0].successes).toBe(0));
+
+    await Promise.all(statuses.map(status => status.shutdown()));
+    expect(controller.listenerCount("rotate")).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  describe("globalRotateBucketController", () => {
+    it("should return the same controller for the same interval", () => {
+      expect(globalRotateBucketController(1000)).toBe(globalRotateBucketController(1000));
+      expect(globalRotateBucketController(1000)).not.toBe(globalRotateBucketController(500));
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import EventEmitter from "events";
+
+// Emits `rotate` on a fixed interval so many `Status` instances can share one timer.
+// The timer only runs while something is listening, so an idle controller never keeps
+// the process alive.
+class RotateBucketController extends EventEmitter {
+  private readonly interval: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(interval: number) {
+    super();
+    this.interval = interval;
+    // Every breaker subscribes once, so hundreds of listeners are expected.
+    this.setMaxListeners(0);
+
+    this.on("newListener", (event: string) => {
+      if (event === "rotate" && !this.timer) this.start();
+    });
+    this.on("removeListener", (event: string) => {
+      if (event === "rotate" && this.listenerCount("rotate") === 0) this.stop();
+    });
+  }
+
+  private start(): void {
+    this.timer = setInterval(() => this.emit("rotate"), this.interval);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+const controllers = new Map<number, RotateBucketController>();
+
+// Returns the process-wide controller for the given interval, creating it on first use.
+// Breakers sharing a controller must use the same bucket duration
+// (`rollingCountTimeout / rollingCountBuckets`).
+function globalRotateBucketController(interval: number): RotateBucketController {
+  let controller = controllers.get(interval);
+  if (!controller) {
+    controller = new RotateBucketController(interval);
+    controllers.set(interval, controller);
+  }
+  return controller;
+}
+
+export { RotateBucketController, globalRotateBucketController };
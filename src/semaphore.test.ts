@@ -0,0 +1,90 @@
+import { Semaphore } from "./semaphore";
+
+describe("Semaphore", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("tryAcquire", () => {
+    it("should hand out permits up to capacity", () => {
+      const semaphore = new Semaphore({ capacity: 2 });
+
+      expect(semaphore.tryAcquire()).toBe(true);
+      expect(semaphore.tryAcquire()).toBe(true);
+      expect(semaphore.tryAcquire()).toBe(false);
+      expect(semaphore.count).toBe(2);
+    });
+
+    it("should free a permit on release", () => {
+      const semaphore = new Semaphore({ capacity: 1 });
+      semaphore.tryAcquire();
+
+      semaphore.release();
+
+      expect(semaphore.count).toBe(0);
+      expect(semaphore.tryAcquire()).toBe(true);
+    });
+  });
+
+  describe("acquire", () => {
+    it("should reject immediately when queueing is disabled", async () => {
+      const semaphore = new Semaphore({ capacity: 1 });
+      semaphore.tryAcquire();
+
+      await expect(semaphore.acquire()).resolves.toBe(false);
+    });
+
+    it("should hand released permits to waiters in FIFO order", async () => {
+      const semaphore = new Semaphore({ capacity: 1, maxQueueSize: 2 });
+      semaphore.tryAcquire();
+      const order: number[] = [];
+
+      const first = semaphore.acquire().then(acquired => acquired && order.push(1));
+      const second = semaphore.acquire().then(acquired => acquired && order.push(2));
+      expect(semaphore.pending).toBe(2);
+
+      semaphore.release();
+      semaphore.release();
+      await Promise.all([first, second]);
+
+      expect(order).toEqual([1, 2]);
+      expect(semaphore.count).toBe(1);
+    });
+
+    it("should reject callers beyond maxQueueSize", async () => {
+      const semaphore = new Semaphore({ capacity: 1, maxQueueSize: 1 });
+      semaphore.tryAcquire();
+      semaphore.acquire();
+
+      await expect(semaphore.acquire()).resolves.toBe(false);
+    });
+
+    it("should give up after queueTimeout", async () => {
+      const semaphore = new Semaphore({ capacity: 1, maxQueueSize: 1, queueTimeout: 50 });
+      semaphore.tryAcquire();
+
+      const waiting = semaphore.acquire();
+      jest.advanceTimersByTime(50);
+
+      await expect(waiting).resolves.toBe(false);
+      expect(semaphore.pending).toBe(0);
+    });
+  });
+
+  describe("shutdown", () => {
+    it("should turn away every queued caller", async () => {
+      const semaphore = new Semaphore({ capacity: 1, maxQueueSize: 2 });
+      semaphore.tryAcquire();
+      const waiting = [semaphore.acquire(), semaphore.acquire()];
+
+      semaphore.shutdown();
+
+      await expect(Promise.all(waiting)).resolves.toEqual([false, false]);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+});
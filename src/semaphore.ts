@@ -0,0 +1,82 @@
+type SemaphoreOptions = {
+  // The maximum number of permits that can be held at once.
+  capacity: number;
+  // How many callers may wait for a permit once capacity is reached. 0 disables queueing.
+  maxQueueSize?: number;
+  // How long, in milliseconds, a queued caller waits for a permit before giving up.
+  queueTimeout?: number;
+};
+
+type Waiter = {
+  resolve: (acquired: boolean) => void;
+  timer: NodeJS.Timeout;
+};
+
+// Counts in-flight work against a fixed capacity, with an optional bounded FIFO wait queue.
+class Semaphore {
+  private readonly capacity: number;
+  private readonly maxQueueSize: number;
+  private readonly queueTimeout: number;
+  private readonly waiters: Waiter[] = [];
+  private inFlight = 0;
+
+  constructor(options: SemaphoreOptions) {
+    this.capacity = options.capacity;
+    this.maxQueueSize = options.maxQueueSize ?? 0;
+    this.queueTimeout = options.queueTimeout ?? 1000;
+  }
+
+  get count(): number {
+    return this.inFlight;
+  }
+
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  // Takes a permit if one is free right now, without queueing.
+  public tryAcquire(): boolean {
+    if (this.inFlight >= this.capacity) return false;
+    this.inFlight++;
+    return true;
+  }
+
+  // Takes a permit, waiting in the queue if there is room. Resolves false if the queue is full
+  // or the wait times out.
+  public async acquire(): Promise<boolean> {
+    if (this.tryAcquire()) return true;
+    if (this.waiters.length >= this.maxQueueSize) return false;
+
+    return new Promise<boolean>(resolve => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1);
+          resolve(false);
+        }, this.queueTimeout),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  // Returns a permit, handing it straight to the longest-waiting caller if there is one.
+  public release(): void {
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(true);
+      return;
+    }
+    if (this.inFlight > 0) this.inFlight--;
+  }
+
+  // Turns away every queued caller.
+  public shutdown(): void {
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(false);
+    }
+  }
+}
+
+export { Semaphore, SemaphoreOptions };
@@ -0,0 +1,77 @@
+import CircuitBreakerMiddleware from "./circuit";
+import { InvalidSnapshotError } from "./errors";
+import { CircuitBreakerSnapshot, parseSnapshot } from "./snapshot";
+
+describe("parseSnapshot", () => {
+  let snapshot: CircuitBreakerSnapshot;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    const breaker = new CircuitBreakerMiddleware({ name: "users" });
+    snapshot = JSON.parse(JSON.stringify(breaker));
+    breaker.shutdown();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should accept what toJSON produces", () => {
+    expect(parseSnapshot(snapshot)).toEqual(snapshot);
+  });
+
+  it.each([
+    ["a non-object", null, "Snapshot must be an object"],
+    ["another version", { version: 99 }, "Unsupported snapshot version: 99"],
+    ["an unknown state", { state: "ajar" }, "Unknown state: ajar"],
+    ["a missing timestamp", { takenAt: undefined }, "takenAt must be a timestamp"],
+    ["a negative reset time", { resetRemaining: -1 }, "resetRemaining must be"],
+    ["missing buckets", { status: { totals: {} } }, "status.buckets must be an array"],
+  ])("should reject %s", (_, override, message) => {
+    const value = override === null ? null : { ...snapshot, ...override };
+
+    expect(() => parseSnapshot(value)).toThrow(InvalidSnapshotError);
+    expect(() => parseSnapshot(value)).toThrow(message);
+  });
+
+  it("should reject corrupt counts with the path to the problem", () => {
+    snapshot.status.buckets[2].failures = "lots" as unknown as number;
+
+    expect(() => parseSnapshot(snapshot)).toThrow(
+      "status.buckets[2].failures must be a non-negative number",
+    );
+  });
+
+  it("should reject corrupt latencies", () => {
+    snapshot.status.buckets[0].latencies.counts = [[1, NaN]];
+
+    expect(() => parseSnapshot(snapshot)).toThrow("status.buckets[0].latencies.counts");
+  });
+
+  it("should read version 1 snapshots, which kept raw latencies", () => {
+    const { latencies, ...bucket } = snapshot.status.buckets[0];
+    const v1 = {
+      ...snapshot,
+      version: 1,
+      status: { ...snapshot.status, buckets: [{ ...bucket, latencyTimes: [10, 20, 30] }] },
+    };
+
+    const parsed = parseSnapshot(v1);
+
+    expect(parsed.version).toBe(2);
+    expect(parsed.status.buckets[0].latencies).toEqual(
+      expect.objectContaining({ count: 3, sum: 60, min: 10, max: 30 }),
+    );
+  });
+
+  it("should reject corrupt version 1 latencies", () => {
+    const { latencies, ...bucket } = snapshot.status.buckets[0];
+    const v1 = {
+      ...snapshot,
+      version: 1,
+      status: { ...snapshot.status, buckets: [{ ...bucket, latencyTimes: [1, NaN] }] },
+    };
+
+    expect(() => parseSnapshot(v1)).toThrow("status.buckets[0].latencyTimes");
+  });
+});
@@ -0,0 +1,119 @@
+import { CircuitState } from "./breaker";
+import { InvalidSnapshotError } from "./errors";
+import { Histogram, HistogramSnapshot } from "./histogram";
+import { Bucket, Totals } from "./status";
+
+// Bump whenever the shape below changes, and teach `parseSnapshot` to read the old one.
+// Version 1 kept every latency in a `latencyTimes` array instead of a histogram.
+const SNAPSHOT_VERSION = 2;
+
+type BucketSnapshot = Omit<Bucket, "latencies"> & { latencies: HistogramSnapshot };
+
+// Everything Status needs to carry on where it left off.
+type StatusSnapshot = {
+  // Newest first, as Status keeps them.
+  buckets: BucketSnapshot[];
+  totals: Totals;
+};
+
+// What `CircuitBreakerMiddleware.toJSON()` produces and `restore()` accepts.
+type CircuitBreakerSnapshot = {
+  version: typeof SNAPSHOT_VERSION;
+  name: string;
+  state: Exclude<CircuitState, "shutdown">;
+  // When the snapshot was taken, in milliseconds since the epoch.
+  takenAt: number;
+  // How long the open circuit still had to wait before going half-open, or `null` if not open.
+  resetRemaining: number | null;
+  status: StatusSnapshot;
+};
+
+const STATES = ["open", "closed", "half-open"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+function assertCounts(value: unknown, path: string, skip: string[] = []): void {
+  if (!isObject(value)) throw new InvalidSnapshotError(`${path} must be an object`);
+  for (const [key, count] of Object.entries(value)) {
+    if (skip.includes(key)) continue;
+    if (!isCount(count)) {
+      throw new InvalidSnapshotError(`${path}.${key} must be a non-negative number`);
+    }
+  }
+}
+
+function assertHistogram(value: unknown, path: string): void {
+  assertCounts(value, path, ["counts"]);
+  const { significantDigits, counts } = value as Record<string, unknown>;
+  if (!Number.isInteger(significantDigits)) {
+    throw new InvalidSnapshotError(`${path}.significantDigits must be an integer`);
+  }
+  const isEntry = (entry: unknown) =>
+    Array.isArray(entry) && entry.length === 2 && Number.isInteger(entry[0]) && isCount(entry[1]);
+  if (!Array.isArray(counts) || !counts.every(isEntry)) {
+    throw new InvalidSnapshotError(`${path}.counts must be an array of [index, count] pairs`);
+  }
+}
+
+function assertBucket(value: unknown, path: string, version: number): void {
+  const latencyField = version === 1 ? "latencyTimes" : "latencies";
+  assertCounts(value, path, ["statusCodes", "percentiles", latencyField, "isCircuitBreakerOpen"]);
+  const { statusCodes, latencyTimes, latencies } = value as Record<string, unknown>;
+  // Snapshots taken before status codes were counted have none
+  if (statusCodes !== undefined) assertCounts(statusCodes, `${path}.statusCodes`);
+  if (version === 1) {
+    if (!Array.isArray(latencyTimes) || !latencyTimes.every(isCount)) {
+      throw new InvalidSnapshotError(`${path}.latencyTimes must be an array of latencies`);
+    }
+    return;
+  }
+  assertHistogram(latencies, `${path}.latencies`);
+}
+
+// Records the latencies of a version 1 bucket in a histogram.
+function upgradeBucket(bucket: Record<string, unknown>): BucketSnapshot {
+  const { latencyTimes, ...rest } = bucket;
+  const latencies = new Histogram();
+  (latencyTimes as number[]).forEach(latency => latencies.record(latency));
+  return { ...(rest as Omit<BucketSnapshot, "latencies">), latencies: latencies.toJSON() };
+}
+
+// Checks that `value` is a snapshot this version of the library can restore, throwing an
+// InvalidSnapshotError naming the first problem found.
+function parseSnapshot(value: unknown): CircuitBreakerSnapshot {
+  if (!isObject(value)) throw new InvalidSnapshotError("Snapshot must be an object");
+  const version = value.version;
+  if (version !== 1 && version !== SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotError(`Unsupported snapshot version: ${String(value.version)}`);
+  }
+  if (typeof value.name !== "string") throw new InvalidSnapshotError("name must be a string");
+  if (typeof value.state !== "string" || !STATES.includes(value.state)) {
+    throw new InvalidSnapshotError(`Unknown state: ${String(value.state)}`);
+  }
+  if (!isCount(value.takenAt)) throw new InvalidSnapshotError("takenAt must be a timestamp");
+  if (value.resetRemaining !== null && !isCount(value.resetRemaining)) {
+    throw new InvalidSnapshotError("resetRemaining must be a number of milliseconds or null");
+  }
+
+  const status = value.status;
+  if (!isObject(status) || !Array.isArray(status.buckets)) {
+    throw new InvalidSnapshotError("status.buckets must be an array");
+  }
+  status.buckets.forEach((bucket, i) => assertBucket(bucket, `status.buckets[${i}]`, version));
+  assertCounts(status.totals, "status.totals");
+
+  if (version === 1) {
+    return {
+      ...value,
+      version: SNAPSHOT_VERSION,
+      status: { ...status, buckets: status.buckets.map(upgradeBucket) },
+    } as CircuitBreakerSnapshot;
+  }
+  return value as CircuitBreakerSnapshot;
+}
+
+export { SNAPSHOT_VERSION, BucketSnapshot, StatusSnapshot, CircuitBreakerSnapshot, parseSnapshot };
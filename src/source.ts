@@ -0,0 +1,13 @@
+import CircuitBreaker from "./breaker";
+
+// Anything the metrics and admin handlers can read breakers from: a single breaker, a
+// CircuitBreakerRegistry or any other collection, or a function returning one.
+type BreakerSource = CircuitBreaker | Iterable<CircuitBreaker> | (() => Iterable<CircuitBreaker>);
+
+function resolveBreakers(source: BreakerSource): CircuitBreaker[] {
+  if (source instanceof CircuitBreaker) return [source];
+  if (typeof source === "function") return Array.from(source());
+  return Array.from(source);
+}
+
+export { BreakerSource, resolveBreakers };
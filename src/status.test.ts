@@ -29,7 +29,7 @@ describe('Status', () => {
       expect(stats.successes).toBe(5);
       expect(stats.failures).toBe(0); // Assuming no failures were incremented
       expect(stats.timeouts).toBe(0); // Assuming no timeouts were incremented
-      expect(stats.latencyTimes).toEqual(expect.arrayContaining([50, 100, 150, 200, 250]));
+      expect(stats.latencies.count).toBe(5);
       expect(stats.latencyMean).toBeCloseTo(150, 5);
   
       // Percentile checks
@@ -74,7 +74,8 @@ describe('Status', () => {
       await status.increment('successes', 250);
     
       const stats = status.stats;
-      expect(stats.latencyTimes).toEqual(expect.arrayContaining([50, 100, 150, 200, 250]));
+      expect(stats.latencies.count).toBe(5);
+      expect(stats.latencyMean).toBeCloseTo(150, 5);
       expect(stats.percentiles).toEqual(expect.objectContaining({
         0: 0,
         0.25: 0,
@@ -126,6 +127,27 @@ describe('Status', () => {
     });
   });
 
+  describe('snapshot', () => {
+    it('should emit the aggregated stats when the buckets rotate', async () => {
+      const listener = jest.fn();
+      status.on('snapshot', listener);
+      await status.increment('successes', 100);
+
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].successes).toBe(1);
+    });
+
+    it('should not aggregate the stats when nobody is listening', async () => {
+      const stats = jest.spyOn(status, 'stats', 'get');
+
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+
+      expect(stats).not.toHaveBeenCalled();
+    });
+  });
+
   describe('shutdown', () => {
     it('should stop the rotation of buckets', async () => {
       jest.useFakeTimers();
@@ -150,7 +172,8 @@ describe('Status', () => {
       expect(stats.successes).toBe(1);
       expect(stats.failures).toBe(1);
       expect(stats.timeouts).toBe(1);
-      expect(stats.latencyTimes).toContain(50);
+      expect(stats.latencies.count).toBe(1);
+      expect(stats.percentiles[1]).toBe(50);
     });
 
     it('should correctly handle concurrent increments', async () => {
@@ -161,6 +184,174 @@ describe('Status', () => {
     });
   });
 
+  describe('totals', () => {
+    it('should keep counting after the buckets rotate out', async () => {
+      await status.increment('fires');
+      await status.increment('failures', 20);
+
+      jest.advanceTimersByTime(options.rollingCountTimeout + 1);
+
+      expect(status.stats.fires).toBe(0);
+      expect(status.totals.fires).toBe(1);
+      expect(status.totals.failures).toBe(1);
+    });
+  });
+
+  describe('recordStatusCode', () => {
+    it('should count status codes per bucket and sum them by class', async () => {
+      status.recordStatusCode(200);
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+      status.recordStatusCode(200);
+      status.recordStatusCode(429);
+
+      expect(status.stats.statusCodes).toEqual({ 200: 2, 429: 1 });
+      expect(status.stats.statusClasses).toEqual({ '2xx': 2, '4xx': 1 });
+      expect(status['buckets'][0].statusCodes).toEqual({ 200: 1, 429: 1 });
+    });
+
+    it('should round-trip through a snapshot', () => {
+      status.recordStatusCode(503);
+
+      const restored = new Status(options);
+      restored.restore(status.snapshot());
+
+      expect(restored.stats.statusCodes).toEqual({ 503: 1 });
+      restored.shutdown();
+    });
+  });
+
+  describe('snapshot and restore', () => {
+    it('should carry buckets and totals over to a new instance', async () => {
+      await status.increment('failures', 100);
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+      await status.increment('successes', 200);
+
+      const restored = new Status(options);
+      restored.restore(status.snapshot());
+
+      expect(restored.stats).toEqual(status.stats);
+      expect(restored.totals).toEqual(status.totals);
+      expect(restored['buckets'][1].failures).toBe(1);
+      restored.shutdown();
+    });
+
+    it('should drop buckets that rotated out while it was down', async () => {
+      await status.increment('failures');
+      jest.advanceTimersByTime(options.rollingCountTimeout / options.rollingCountBuckets);
+      await status.increment('successes');
+      const snapshot = status.snapshot();
+
+      const restored = new Status(options);
+      restored.restore(snapshot, options.rollingCountTimeout - 1);
+
+      expect(restored.stats.successes).toBe(1);
+      expect(restored.stats.failures).toBe(0);
+      expect(restored['buckets'].length).toBe(options.rollingCountBuckets);
+      restored.shutdown();
+    });
+
+    it('should seed the current bucket from the stats option', () => {
+      const seeded = new Status({ ...options, stats: { ...status.stats, failures: 3 } });
+
+      expect(seeded.stats.failures).toBe(3);
+      seeded.shutdown();
+    });
+  });
+
+  describe('count-based window', () => {
+    const countOptions = { ...options, slidingWindowType: 'count' as const, slidingWindowSize: 3 };
+    let countStatus: Status;
+
+    const call = async (counter: 'successes' | 'failures', latency: number) => {
+      const bucket = countStatus.startCall();
+      countStatus.recordIn(bucket, () => countStatus.increment(counter, latency));
+    };
+
+    beforeEach(() => {
+      countStatus = new Status(countOptions);
+    });
+
+    afterEach(() => {
+      countStatus.shutdown();
+    });
+
+    it('should only count the last N calls', async () => {
+      await call('failures', 10);
+      await call('successes', 20);
+      await call('successes', 30);
+      await call('successes', 40);
+
+      const stats = countStatus.stats;
+      expect(stats.fires).toBe(3);
+      expect(stats.failures).toBe(0);
+      expect(stats.successes).toBe(3);
+      expect(stats.percentiles[0]).toBe(20);
+      expect(countStatus.counts).toEqual(expect.objectContaining({ fires: 3, failures: 0 }));
+      expect(countStatus.totals.fires).toBe(4);
+    });
+
+    it('should not age calls out with time', async () => {
+      const listener = jest.fn();
+      countStatus.on('snapshot', listener);
+      await call('failures', 10);
+
+      jest.advanceTimersByTime(options.rollingCountTimeout * 10);
+
+      expect(countStatus.stats.failures).toBe(1);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the circuit open flag across calls', async () => {
+      countStatus.open();
+      await call('failures', 10);
+
+      expect(countStatus.stats.isCircuitBreakerOpen).toBe(true);
+    });
+
+    it('should round-trip through a snapshot in order', async () => {
+      await call('failures', 10);
+      await call('successes', 20);
+
+      const restored = new Status(countOptions);
+      restored.restore(countStatus.snapshot(), options.rollingCountTimeout * 10);
+      restored.recordIn(restored.startCall(), () => restored.increment('successes'));
+      restored.recordIn(restored.startCall(), () => restored.increment('successes'));
+
+      // The oldest call, the failure, has been pushed out
+      expect(restored.stats.failures).toBe(0);
+      expect(restored.stats.successes).toBe(3);
+      restored.shutdown();
+    });
+
+    it('should record an outcome in the bucket of its own call', async () => {
+      const slow = countStatus.startCall();
+      await call('successes', 10);
+      await call('successes', 20);
+      countStatus.recordIn(slow, () => countStatus.increment('failures', 30));
+
+      expect(countStatus.stats).toEqual(expect.objectContaining({ fires: 3, failures: 1 }));
+
+      await call('successes', 40);
+
+      // The slow call was the oldest, so its failure went out with it
+      expect(countStatus.stats).toEqual(expect.objectContaining({ fires: 3, failures: 0 }));
+      expect(countStatus.totals.failures).toBe(1);
+    });
+
+    it('should not give calls turned away a bucket of their own', async () => {
+      await call('failures', 10);
+      await countStatus.increment('fires');
+      await countStatus.increment('fires');
+      await countStatus.increment('fires');
+
+      expect(countStatus.stats).toEqual(expect.objectContaining({ fires: 4, failures: 1 }));
+    });
+
+    it('should reject an empty window', () => {
+      expect(() => new Status({ ...countOptions, slidingWindowSize: 0 })).toThrow(RangeError);
+    });
+  });
+
   describe('circuitBreaker', () => {
     it('should open and close the circuit breaker', () => {
       status.open();
@@ -1,8 +1,25 @@
+import EventEmitter from "events";
+import { Histogram } from "./histogram";
+import { BucketSnapshot, StatusSnapshot } from "./snapshot";
+
+// "time" judges the calls of the last `rollingCountTimeout` milliseconds, "count" the last
+// `slidingWindowSize` calls however long ago they were.
+type SlidingWindowType = "time" | "count";
+
 type StatusOptions = {
+  slidingWindowType?: SlidingWindowType;
+  // The number of calls the window holds in "count" mode.
+  slidingWindowSize?: number;
   rollingCountBuckets: number;
   rollingCountTimeout: number;
   rollingPercentilesEnabled?: boolean;
+  // The precision of the latency histograms, in significant decimal digits (1 to 5).
+  // Defaults to 2, i.e. percentiles within 1% of the exact value.
+  histogramSignificantDigits?: number;
+  // Seeds the current bucket, e.g. with the stats of a previous instance.
   stats?: Stats;
+  // Rotate the buckets on this emitter's `rotate` events instead of a timer of our own.
+  rotateBucketController?: EventEmitter;
 };
 
 type Bucket = {
@@ -10,102 +27,285 @@ type Bucket = {
   successes: number;
   fires: number;
   timeouts: number;
+  slowCalls: number;
+  // Requests the client gave up on before the response finished.
+  clientAborts: number;
+  // Calls classified as rate limited, which weigh on the error rate as their weight says.
+  rateLimited: number;
+  // Calls classified as ignored, which don't count toward the error rate at all.
+  ignored: number;
+  // Calls turned away, whether the circuit was open, half-open, ramping up or at capacity.
+  rejects: number;
+  fallbacks: number;
+  fallbackFailures: number;
+  semaphoreRejections: number;
+  // How many responses there were with each status code, e.g. `{ 200: 90, 503: 10 }`.
+  statusCodes: { [code: number]: number };
   percentiles: { [key: number]: number };
-  latencyTimes: number[];
+  // Every latency recorded in the bucket, in a fixed amount of memory.
+  latencies: Histogram;
   isCircuitBreakerOpen: boolean;
 };
 
-type Stats = Bucket & { latencyMean?: number };
+type Stats = Bucket & {
+  latencyMean?: number;
+  // While the breaker ramps traffic back up after closing, the percentage of requests it admits.
+  rampUpPercentage?: number;
+  // `statusCodes` summed by class, e.g. `{ "2xx": 90, "5xx": 10 }`.
+  statusClasses?: { [statusClass: string]: number };
+};
+
+// Counts since construction that never rotate out of the window, for monotonic counters.
+type Totals = Omit<Bucket, "statusCodes" | "percentiles" | "latencies" | "isCircuitBreakerOpen">;
 
-class Status {
+// Emits a `snapshot` event with the aggregated stats every time the buckets rotate.
+// In "count" mode every admitted call gets a bucket of its own in a ring buffer, and the oldest
+// one is overwritten on each new call; there is no rotation timer and no `snapshot` event. A
+// call's outcome is recorded in its own bucket through `recordIn()`, however many calls were
+// admitted while it ran. Calls turned away count toward `fires` in the newest bucket.
+class Status extends EventEmitter {
   private buckets: Bucket[];
+  // Where the newest bucket is. Always 0 in "time" mode, where the buckets are shifted instead.
+  private head = 0;
+  private windowType: SlidingWindowType;
   private timeout: number;
   private percentiles: number[] = [0.0, 0.25, 0.5, 0.75, 0.9, 0.95, 0.99, 0.995, 1];
   private rollingPercentilesEnabled: boolean;
+  private significantDigits: number;
   private _stats?: Stats;
   private rotationTimer?: NodeJS.Timeout;
+  private rotateBucketController?: EventEmitter;
+  private _totals: Totals;
+  // The bucket `recordIn()` is recording a call's outcome in, if not the newest.
+  private recording?: Bucket;
 
   constructor(options: StatusOptions) {
-    this.buckets = Array.from({ length: options.rollingCountBuckets }, () => this.createBucket());
+    super();
+    this.significantDigits = options.histogramSignificantDigits ?? 2;
+    this.windowType = options.slidingWindowType ?? "time";
+    const length =
+      this.windowType === "count" ? options.slidingWindowSize ?? 100 : options.rollingCountBuckets;
+    if (!Number.isInteger(length) || length < 1) {
+      throw new RangeError("The sliding window must hold at least one bucket");
+    }
+    this.buckets = Array.from({ length }, () => this.createBucket());
     this.timeout = options.rollingCountTimeout;
     this.rollingPercentilesEnabled = options.rollingPercentilesEnabled !== false;
-    this.rotateBuckets();
+    this.rotateBucketController = options.rotateBucketController;
+    const { statusCodes, percentiles, latencies, isCircuitBreakerOpen, ...totals } =
+      this.createBucket();
+    this._totals = totals;
+    if (options.stats) {
+      this.buckets[0] = this.fromSnapshot(options.stats);
+    }
+    if (this.windowType === "time") {
+      this.rotateBuckets();
+    }
   }
 
   private async rotateBuckets(): Promise<void> {
-    this.rotationTimer = setInterval(() => {
-      this.buckets.pop();
-      this.buckets.unshift(this.createBucket());
-    }, this.timeout / this.buckets.length);
+    if (this.rotateBucketController) {
+      this.rotateBucketController.on("rotate", this.rotate);
+      return;
+    }
+    this.rotationTimer = setInterval(this.rotate, this.timeout / this.buckets.length);
+  }
+
+  private rotate = (): void => {
+    this.buckets.pop();
+    this.buckets.unshift(this.createBucket());
+    // Aggregating the stats isn't free, so only when someone is listening
+    if (this.listenerCount("snapshot") > 0) {
+      this.emit("snapshot", this.stats);
+    }
+  };
+
+  // Overwrites the oldest call's bucket with an empty one for the next call.
+  private advance(): void {
+    const { isCircuitBreakerOpen } = this.current;
+    this.head = (this.head + this.buckets.length - 1) % this.buckets.length;
+    this.buckets[this.head] = { ...this.createBucket(), isCircuitBreakerOpen };
+  }
+
+  private get current(): Bucket {
+    return this.buckets[this.head];
+  }
+
+  // Where counts go: the bucket of the call being recorded, or else the newest.
+  private get target(): Bucket {
+    return this.recording ?? this.current;
+  }
+
+  // The buckets from newest to oldest.
+  private ordered(): Bucket[] {
+    const { length } = this.buckets;
+    return Array.from({ length }, (_, i) => this.buckets[(this.head + i) % length]);
+  }
+
+  get totals(): Totals {
+    return { ...this._totals };
   }
 
   get stats(): Stats {
-    const aggregatedStats: Stats = this.buckets.reduce((acc: Stats, bucket: Bucket) => {
+    const aggregatedStats = this.buckets.reduce((acc: Stats, bucket: Bucket) => {
       acc.failures += bucket.failures;
       acc.successes += bucket.successes;
       acc.fires += bucket.fires;
       acc.timeouts += bucket.timeouts;
-    
-      // Always accumulate latencyTimes, regardless of rollingPercentilesEnabled
-      acc.latencyTimes = [...acc.latencyTimes, ...bucket.latencyTimes];
-    
+      acc.slowCalls += bucket.slowCalls;
+      acc.clientAborts += bucket.clientAborts;
+      acc.rateLimited += bucket.rateLimited;
+      acc.ignored += bucket.ignored;
+      acc.rejects += bucket.rejects;
+      acc.fallbacks += bucket.fallbacks;
+      acc.fallbackFailures += bucket.fallbackFailures;
+      acc.semaphoreRejections += bucket.semaphoreRejections;
+      for (const [code, count] of Object.entries(bucket.statusCodes)) {
+        acc.statusCodes[Number(code)] = (acc.statusCodes[Number(code)] ?? 0) + count;
+      }
+      acc.latencies.merge(bucket.latencies);
       return acc;
     }, this.createBucket() as Stats);
-  
-    // Sort the latencyTimes for percentile calculation
-    aggregatedStats.latencyTimes.sort((a, b) => a - b);
-  
-    // Calculate latencyMean
-    aggregatedStats.latencyMean = aggregatedStats.latencyTimes.length > 0
-      ? aggregatedStats.latencyTimes.reduce((acc, cur) => acc + cur, 0) / aggregatedStats.latencyTimes.length
-      : 0;
-  
-    // Calculate Percentiles only if rollingPercentilesEnabled is true
-    if (this.rollingPercentilesEnabled) {
-      this.percentiles.forEach(percentile => {
-        aggregatedStats.percentiles[percentile] = this.calculatePercentile(percentile, aggregatedStats.latencyTimes);
-      });
-    } else {
-      // Ensure percentiles are set to 0 when disabled
-      this.percentiles.forEach(percentile => {
-        aggregatedStats.percentiles[percentile] = 0;
-      });
+
+    aggregatedStats.latencyMean = aggregatedStats.latencies.mean;
+    aggregatedStats.statusClasses = {};
+    for (const [code, count] of Object.entries(aggregatedStats.statusCodes)) {
+      const statusClass = `${code[0]}xx`;
+      aggregatedStats.statusClasses[statusClass] =
+        (aggregatedStats.statusClasses[statusClass] ?? 0) + count;
     }
 
-    aggregatedStats.isCircuitBreakerOpen = this.buckets[0].isCircuitBreakerOpen;
-  
+    // Percentiles stay at 0 unless rollingPercentilesEnabled is true
+    const values = this.rollingPercentilesEnabled
+      ? aggregatedStats.latencies.percentiles(this.percentiles)
+      : this.percentiles.map(() => 0);
+    this.percentiles.forEach((percentile, i) => {
+      aggregatedStats.percentiles[percentile] = values[i];
+    });
+
+    aggregatedStats.isCircuitBreakerOpen = this.current.isCircuitBreakerOpen;
+
     return aggregatedStats;
   }
-  
-  private calculatePercentile(percentile: number, latencyTimes: number[]): number {
-    if (latencyTimes.length === 0) return 0;
-    if (percentile <= 0) return latencyTimes[0];
-    if (percentile >= 1) return latencyTimes[latencyTimes.length - 1];
-    
-    const index = Math.ceil(percentile * latencyTimes.length) - 1;
-    return latencyTimes[index];
+
+  // Just the counters of the rolling window, without merging the latency histograms.
+  get counts(): Totals {
+    const { statusCodes, percentiles, latencies, isCircuitBreakerOpen, ...counts } =
+      this.createBucket();
+    for (const bucket of this.buckets) {
+      for (const key of Object.keys(counts) as (keyof Totals)[]) {
+        counts[key] += bucket[key];
+      }
+    }
+    return counts;
+  }
+
+  // Counts an admitted call as fired. In "count" mode it gets a bucket of its own, returned to be
+  // handed to `recordIn()` with its outcome.
+  public startCall(): Bucket | undefined {
+    const count = this.windowType === "count";
+    if (count) this.advance();
+    this.increment("fires");
+    return count ? this.current : undefined;
   }
 
-  public async increment(property: keyof Bucket, latencyRunTime?: number): Promise<void> {
-    const currentBucket = this.buckets[0];
+  // Records whatever `record` counts in `bucket`, the one `startCall()` gave the call, rather than
+  // the newest. A call that newer ones have pushed out of the window only counts in the totals.
+  public recordIn(bucket: Bucket | undefined, record: () => void): void {
+    const previous = this.recording;
+    this.recording = bucket ?? previous;
+    try {
+      record();
+    } finally {
+      this.recording = previous;
+    }
+  }
+
+  public async increment(property: keyof Totals, latencyRunTime?: number): Promise<void> {
+    const currentBucket = this.target;
     currentBucket[property]++;
+    this._totals[property]++;
     if (latencyRunTime !== undefined) {
-      currentBucket.latencyTimes.push(latencyRunTime);
+      currentBucket.latencies.record(latencyRunTime);
     }
   }
 
+  // Adds a settled call's latency to the current bucket's histogram.
+  public recordLatency(latency: number): void {
+    this.target.latencies.record(latency);
+  }
+
+  // Counts a response with the given status code in the current bucket.
+  public recordStatusCode(code: number): void {
+    const { statusCodes } = this.target;
+    statusCodes[code] = (statusCodes[code] ?? 0) + 1;
+  }
+
+  public snapshot(): StatusSnapshot {
+    return {
+      buckets: this.ordered().map(bucket => ({
+        ...bucket,
+        statusCodes: { ...bucket.statusCodes },
+        percentiles: {},
+        latencies: bucket.latencies.toJSON(),
+      })),
+      totals: this.totals,
+    };
+  }
+
+  // Picks up the buckets and totals of a snapshot taken `elapsed` milliseconds ago. In "time"
+  // mode, buckets that would have rotated out since then are dropped.
+  public restore(snapshot: StatusSnapshot, elapsed = 0): void {
+    const count = this.buckets.length;
+    const shift =
+      this.windowType === "time" ? Math.min(count, Math.floor(elapsed / (this.timeout / count))) : 0;
+    const restored = snapshot.buckets.slice(0, count - shift).map(b => this.fromSnapshot(b));
+    const empty = (length: number) => Array.from({ length }, () => this.createBucket());
+
+    this.buckets = [...empty(shift), ...restored, ...empty(count - shift - restored.length)];
+    this.head = 0;
+    this._totals = { ...this._totals, ...snapshot.totals };
+  }
+
+  // Empties the rolling window. Totals keep counting.
+  public reset(): void {
+    this.buckets = this.buckets.map(() => this.createBucket());
+    this.head = 0;
+  }
+
   public open(): void {
-    this.buckets[0].isCircuitBreakerOpen = true;
+    this.current.isCircuitBreakerOpen = true;
   }
 
   public close(): void {
-    this.buckets[0].isCircuitBreakerOpen = false;
+    this.current.isCircuitBreakerOpen = false;
   }
 
   public async shutdown(): Promise<void> {
     if (this.rotationTimer) {
       clearInterval(this.rotationTimer);
     }
+    if (this.rotateBucketController) {
+      this.rotateBucketController.removeListener("rotate", this.rotate);
+    }
+  }
+
+  // Fills in any counters the bucket predates, and copies its latencies into a histogram of
+  // our own precision.
+  private fromSnapshot(bucket: Partial<Stats> | Partial<BucketSnapshot>): Bucket {
+    const { latencyMean, rampUpPercentage, statusClasses, statusCodes, latencies, ...counts } =
+      bucket as Partial<Stats>;
+    const histogram = new Histogram(this.significantDigits);
+    if (latencies) {
+      histogram.merge(latencies instanceof Histogram ? latencies : Histogram.fromJSON(latencies));
+    }
+    return {
+      ...this.createBucket(),
+      ...counts,
+      statusCodes: { ...statusCodes },
+      percentiles: {},
+      latencies: histogram,
+    };
   }
 
   private createBucket(): Bucket {
@@ -114,11 +314,20 @@ class Status {
       successes: 0,
       fires: 0,
       timeouts: 0,
+      slowCalls: 0,
+      clientAborts: 0,
+      rateLimited: 0,
+      ignored: 0,
+      rejects: 0,
+      fallbacks: 0,
+      fallbackFailures: 0,
+      semaphoreRejections: 0,
+      statusCodes: {},
       percentiles: {},
-      latencyTimes: [],
+      latencies: new Histogram(this.significantDigits),
       isCircuitBreakerOpen: false,
     };
   }
 }
 
-export { Status, StatusOptions, Bucket, Stats };
\ No newline at end of file
+export { Status, StatusOptions, SlidingWindowType, Bucket, Stats, Totals };
@@ -0,0 +1,94 @@
+import { KeyValueClient, KeyValueStateStore, MemoryStateStore } from "./store";
+
+// A KeyValueClient over plain maps, standing in for Redis
+class MapClient implements KeyValueClient {
+  public readonly values = new Map<string, string>();
+  public readonly hashes = new Map<string, Record<string, string>>();
+
+  public async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  public async compareAndSet(key: string, expected: string | null, value: string) {
+    if ((this.values.get(key) ?? null) !== expected) return false;
+    this.values.set(key, value);
+    return true;
+  }
+
+  public async incrementField(key: string, field: string, amount: number) {
+    const hash = this.hashes.get(key) ?? {};
+    hash[field] = String(Number(hash[field] ?? 0) + amount);
+    this.hashes.set(key, hash);
+  }
+
+  public async getFields(key: string): Promise<Record<string, string>> {
+    return this.hashes.get(key) ?? {};
+  }
+}
+
+describe.each([
+  ["MemoryStateStore", () => new MemoryStateStore()],
+  ["KeyValueStateStore", () => new KeyValueStateStore(new MapClient())],
+])("%s", (_, createStore) => {
+  describe("state", () => {
+    it("should resolve undefined before anything is published", async () => {
+      await expect(createStore().getState("users")).resolves.toBeUndefined();
+    });
+
+    it("should publish when the expected version matches", async () => {
+      const store = createStore();
+      const open = { state: "open" as const, changedAt: 1, version: 1 };
+
+      await expect(store.compareAndSetState("users", 0, open)).resolves.toBe(true);
+      await expect(store.getState("users")).resolves.toEqual(open);
+    });
+
+    it("should refuse a stale expected version", async () => {
+      const store = createStore();
+      await store.compareAndSetState("users", 0, { state: "open", changedAt: 1, version: 1 });
+
+      const published = await store.compareAndSetState("users", 0, {
+        state: "closed",
+        changedAt: 2,
+        version: 1,
+      });
+
+      expect(published).toBe(false);
+      await expect(store.getState("users")).resolves.toMatchObject({ state: "open" });
+    });
+  });
+
+  describe("counts", () => {
+    it("should sum increments across the requested buckets only", async () => {
+      const store = createStore();
+      await store.incrementCounts("users", 1, { fires: 2, failures: 1 }, 10000);
+      await store.incrementCounts("users", 2, { fires: 3, successes: 3 }, 10000);
+      await store.incrementCounts("users", 3, { fires: 100 }, 10000);
+      await store.incrementCounts("orders", 2, { fires: 7 }, 10000);
+
+      await expect(store.getCounts("users", [1, 2])).resolves.toEqual({
+        fires: 5,
+        failures: 1,
+        successes: 3,
+        timeouts: 0,
+        slowCalls: 0,
+        rateLimited: 0,
+        ignored: 0,
+        clientAborts: 0,
+      });
+    });
+  });
+});
+
+describe("KeyValueStateStore", () => {
+  it("should namespace its keys with the prefix", async () => {
+    const client = new MapClient();
+    const store = new KeyValueStateStore(client, "app:");
+
+    await store.compareAndSetState("users", 0, { state: "open", changedAt: 1, version: 1 });
+    await store.incrementCounts("users", 42, { fires: 1 }, 10000);
+
+    expect(Array.from(client.values.keys())).toEqual(["app:users:state"]);
+    expect(Array.from(client.hashes.keys())).toEqual(["app:users:counts:42"]);
+  });
+});
@@ -0,0 +1,214 @@
+import EventEmitter from "events";
+import { CircuitState } from "./breaker";
+
+// The circuit state as shared between processes. `version` increases by one on every
+// published transition and is what compare-and-set checks against.
+type StoredState = {
+  state: Extract<CircuitState, "open" | "closed">;
+  changedAt: number;
+  version: number;
+};
+
+// The counts the error rate is calculated from, aggregated across every process.
+type StoredCounts = {
+  fires: number;
+  failures: number;
+  successes: number;
+  timeouts: number;
+  slowCalls: number;
+  rateLimited: number;
+  ignored: number;
+  clientAborts: number;
+};
+
+// Shares breaker state and rolling counts between processes, so every replica learns about a
+// failing dependency from the first one to notice.
+interface CircuitStateStore {
+  // Resolves the last published state, or `undefined` if none has been published yet.
+  getState(name: string): Promise<StoredState | undefined>;
+
+  // Publishes `next` only if the stored version still equals `expectedVersion` (0 when nothing
+  // has been published). Resolves false if another process got there first.
+  compareAndSetState(name: string, expectedVersion: number, next: StoredState): Promise<boolean>;
+
+  // Adds `delta` to the counts of the given bucket. Buckets are numbered by
+  // `Math.floor(Date.now() / bucketDuration)`, and may be dropped after `ttl` milliseconds.
+  incrementCounts(
+    name: string,
+    bucket: number,
+    delta: Partial<StoredCounts>,
+    ttl: number,
+  ): Promise<void>;
+
+  // Resolves the sum of the counts in the given buckets.
+  getCounts(name: string, buckets: number[]): Promise<StoredCounts>;
+
+  // Optionally pushes newly published states as they happen, so breakers need not wait for
+  // their next sync. Returns a function that unsubscribes.
+  subscribe?(name: string, listener: (state: StoredState) => void): () => void;
+}
+
+const emptyCounts = (): StoredCounts => ({
+  fires: 0,
+  failures: 0,
+  successes: 0,
+  timeouts: 0,
+  slowCalls: 0,
+  rateLimited: 0,
+  ignored: 0,
+  clientAborts: 0,
+});
+
+const addCounts = (target: StoredCounts, delta: Partial<StoredCounts>): StoredCounts => {
+  for (const field of Object.keys(target) as (keyof StoredCounts)[]) {
+    target[field] += delta[field] ?? 0;
+  }
+  return target;
+};
+
+// Keeps everything in this process. Useful in tests, and to share state between breakers
+// in the same process.
+class MemoryStateStore implements CircuitStateStore {
+  private readonly states = new Map<string, StoredState>();
+  private readonly counts = new Map<string, { counts: StoredCounts; expiresAt: number }>();
+  private readonly published = new EventEmitter().setMaxListeners(0);
+
+  public async getState(name: string): Promise<StoredState | undefined> {
+    const state = this.states.get(name);
+    return state && { ...state };
+  }
+
+  public async compareAndSetState(
+    name: string,
+    expectedVersion: number,
+    next: StoredState,
+  ): Promise<boolean> {
+    if ((this.states.get(name)?.version ?? 0) !== expectedVersion) return false;
+    this.states.set(name, { ...next });
+    this.published.emit(name, { ...next });
+    return true;
+  }
+
+  public subscribe(name: string, listener: (state: StoredState) => void): () => void {
+    this.published.on(name, listener);
+    return () => this.published.removeListener(name, listener);
+  }
+
+  public async incrementCounts(
+    name: string,
+    bucket: number,
+    delta: Partial<StoredCounts>,
+    ttl: number,
+  ): Promise<void> {
+    const key = `${name}:${bucket}`;
+    const entry = this.counts.get(key) ?? { counts: emptyCounts(), expiresAt: 0 };
+    addCounts(entry.counts, delta);
+    entry.expiresAt = Date.now() + ttl;
+    this.counts.set(key, entry);
+  }
+
+  public async getCounts(name: string, buckets: number[]): Promise<StoredCounts> {
+    const now = Date.now();
+    const total = emptyCounts();
+    for (const bucket of buckets) {
+      const key = `${name}:${bucket}`;
+      const entry = this.counts.get(key);
+      if (!entry) continue;
+      if (entry.expiresAt <= now) {
+        this.counts.delete(key);
+        continue;
+      }
+      addCounts(total, entry.counts);
+    }
+    return total;
+  }
+}
+
+// The handful of operations KeyValueStateStore needs. Each maps onto a single Redis command
+// or small script; see the README for an example.
+interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+
+  // Sets `key` to `value` only if it currently holds `expected` (`null` meaning unset).
+  compareAndSet(key: string, expected: string | null, value: string): Promise<boolean>;
+
+  // Atomically adds `amount` to the numeric `field` of the hash at `key`, and expires the
+  // whole hash after `ttl` milliseconds.
+  incrementField(key: string, field: string, amount: number, ttl: number): Promise<void>;
+
+  // Resolves every field of the hash at `key`, or an empty object if it does not exist.
+  getFields(key: string): Promise<Record<string, string>>;
+}
+
+// A reference CircuitStateStore over a minimal key-value contract.
+class KeyValueStateStore implements CircuitStateStore {
+  private readonly client: KeyValueClient;
+  private readonly prefix: string;
+
+  constructor(client: KeyValueClient, prefix = "circuit-breaker:") {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  public async getState(name: string): Promise<StoredState | undefined> {
+    const raw = await this.client.get(this.stateKey(name));
+    return raw === null ? undefined : (JSON.parse(raw) as StoredState);
+  }
+
+  public async compareAndSetState(
+    name: string,
+    expectedVersion: number,
+    next: StoredState,
+  ): Promise<boolean> {
+    const key = this.stateKey(name);
+    const raw = await this.client.get(key);
+    const current = raw === null ? undefined : (JSON.parse(raw) as StoredState);
+    if ((current?.version ?? 0) !== expectedVersion) return false;
+    // Compare against the exact string we read, so a concurrent writer makes this fail
+    return this.client.compareAndSet(key, raw, JSON.stringify(next));
+  }
+
+  public async incrementCounts(
+    name: string,
+    bucket: number,
+    delta: Partial<StoredCounts>,
+    ttl: number,
+  ): Promise<void> {
+    const key = this.countsKey(name, bucket);
+    await Promise.all(
+      Object.entries(delta)
+        .filter(([, amount]) => amount)
+        .map(([field, amount]) => this.client.incrementField(key, field, amount as number, ttl)),
+    );
+  }
+
+  public async getCounts(name: string, buckets: number[]): Promise<StoredCounts> {
+    const hashes = await Promise.all(
+      buckets.map(bucket => this.client.getFields(this.countsKey(name, bucket))),
+    );
+    return hashes.reduce((total: StoredCounts, fields) => {
+      const delta: Partial<StoredCounts> = {};
+      for (const field of Object.keys(total) as (keyof StoredCounts)[]) {
+        delta[field] = Number(fields[field] ?? 0);
+      }
+      return addCounts(total, delta);
+    }, emptyCounts());
+  }
+
+  private stateKey(name: string): string {
+    return `${this.prefix}${name}:state`;
+  }
+
+  private countsKey(name: string, bucket: number): string {
+    return `${this.prefix}${name}:counts:${bucket}`;
+  }
+}
+
+export {
+  CircuitStateStore,
+  StoredState,
+  StoredCounts,
+  MemoryStateStore,
+  KeyValueClient,
+  KeyValueStateStore,
+};